@@ -1,28 +1,54 @@
-import fs from "fs";
+import crypto from "crypto";
 import * as grpc from "@grpc/grpc-js";
 import * as protoLoader from "@grpc/proto-loader";
-// @ts-ignore
-import avro from "avro-js";
-// @ts-ignore
-import certifi from "certifi";
 // eslint-disable-next-line no-unused-vars
-import { connectivityState } from "@grpc/grpc-js";
+import { connectivityState, ClientDuplexStream } from "@grpc/grpc-js";
 
-import SchemaCache from "./utils/schemaCache";
+import SchemaCache, { Schema } from "./utils/schemaCache";
 import EventParseError from "./utils/eventParseError";
+import CommitReplayError from "./utils/commitReplayError";
 import PubSubEventEmitter from "./utils/pubSubEventEmitter";
-import { CustomLongAvroType } from "./utils/avroHelper";
-import Configuration from "./utils/configuration";
+import PubSubPublisher, { PublisherOptions } from "./utils/pubSubPublisher";
+import AutoCommitter, { CommitPolicy } from "./utils/autoCommitter";
 import {
-  PubSubClient, FetchRequest
+  ReconnectPolicy,
+  getReconnectDelay,
+  isRetryableStatus,
+} from "./utils/reconnectPolicy";
+import { ReplayCheckpointStore } from "./utils/replayCheckpointStore";
+import FlowController, { FlowControlOptions } from "./utils/flowController";
+import StreamWatchdog, { WatchdogOptions } from "./utils/streamWatchdog";
+import { ChannelOptions, createChannel } from "./utils/grpcChannel";
+import HttpProxy, { ProxyOptions } from "./utils/httpProxy";
+import { parseAvroSchema, wrapUnionValues } from "./utils/avroHelper";
+import { diffSchemas, SchemaDiff } from "./utils/schemaDiff";
+import {
+  PayloadValidationOptions,
+  createPayloadSchema,
+  validatePayload,
+} from "./utils/payloadValidator";
+import {
+  PubSubClient, FetchRequest, FetchResponse, PublishRequest, ManagedFetchRequest, ManagedFetchResponse,
+  CommitReplayResponse, ErrorCode, ReplayPreset, TopicInfo
 } from './pubsub_api'
 import {
+  ParsedEvent,
   parseEvent,
+  parsePublishResult,
   encodeReplayId,
   decodeReplayId,
 } from "./utils/eventParser";
-import SalesforceAuth from "./utils/auth";
+import SalesforceAuth, { UserSuppliedAuthProvider } from "./utils/auth";
+import { AuthProvider, ConnectionMetadata } from "./utils/authProvider";
+import { TokenCacheOptions } from "./utils/tokenCache";
+import {
+  AuthConfig,
+  Logger,
+  resolveClientConfig,
+} from "./utils/clientConfiguration";
 import path from "path";
+import { Readable } from "stream";
+import { ZodTypeAny } from "zod";
 
 
 const PROTO_PATH = path.resolve(__dirname, "./pubsub_api.proto");
@@ -31,20 +57,290 @@ const packageDefinition = protoLoader.loadSync(PROTO_PATH, {});
 const protoDescriptor = grpc.loadPackageDefinition(packageDefinition) as any;
 
 /**
- * @typedef {Object} PublishResult
- * @property {number} replayId
- * @property {string} correlationKey
+ * Result of an event publication.
+ * Holds either the replay ID of the published event or the error returned by the Pub/Sub API.
+ * @alias PublishResult
+ * @global
+ */
+export interface PublishResult {
+  /**
+   * Replay ID of the published event. Undefined when the publication failed.
+   * @type {number | undefined}
+   */
+  replayId?: number;
+  /**
+   * Correlation key of the published event
+   * @type {string}
+   */
+  correlationKey: string;
+  /**
+   * Publish error returned by the Pub/Sub API, if any
+   * @type {{ code: ErrorCode, msg: string } | undefined}
+   */
+  error?: { code: ErrorCode; msg: string };
+}
+
+/**
+ * Current schema of a topic
+ * @alias TopicSchema
+ * @global
+ */
+export interface TopicSchema {
+  /**
+   * Name of the topic
+   * @type {string}
+   */
+  topicName: string;
+  /**
+   * ID of the schema
+   * @type {string}
+   */
+  schemaId: string;
+  /**
+   * Avro schema JSON
+   * @type {string}
+   */
+  schemaJson: string;
+}
+
+/**
+ * Payload of the 'schemachange' event emitted when the events of a subscription start using a different schema.
+ * @alias SchemaChangeEvent
+ * @global
+ */
+export interface SchemaChangeEvent {
+  /**
+   * Name of the topic of the subscription
+   * @type {string}
+   */
+  topicName: string;
+  /**
+   * Schema of the previous events
+   * @type {Schema}
+   */
+  previousSchema: Schema;
+  /**
+   * Schema of the event that is about to be emitted
+   * @type {Schema}
+   */
+  schema: Schema;
+  /**
+   * Fields that were added, removed or retyped
+   * @type {SchemaDiff}
+   */
+  diff: SchemaDiff;
+}
+
+/**
+ * Managed subscription request.
+ * Managed subscriptions are identified by the ID or the developer name of a ManagedEventSubscription record.
+ * @alias ManagedSubscribeRequest
+ * @global
+ */
+export interface ManagedSubscribeRequest {
+  /**
+   * ID of the managed subscription. Supply either this or the developer name.
+   * @type {string | undefined}
+   */
+  subscriptionId?: string;
+  /**
+   * Developer name of the managed subscription. Supply either this or the subscription ID.
+   * @type {string | undefined}
+   */
+  developerName?: string;
+  /**
+   * Optional number of events requested. If not supplied or null, the client keeps the subscription alive forever.
+   * @type {number | null | undefined}
+   */
+  numRequested?: number | null;
+  /**
+   * Optional policy for committing replay IDs automatically. If not supplied, call commitReplayId yourself.
+   * @type {CommitPolicy | undefined}
+   */
+  commitPolicy?: CommitPolicy;
+}
+
+/**
+ * Commit request awaiting a response from the server
+ * @private
+ */
+interface PendingCommit {
+  replayId: number;
+  resolve: (replayId: number) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Managed subscription stream and its pending commit requests
+ * @private
+ */
+interface ManagedSubscription {
+  subscribeRequest: { subscriptionId?: string; developerName?: string };
+  isInfiniteEventRequest: boolean;
+  stream: ClientDuplexStream<ManagedFetchRequest, ManagedFetchResponse> | null;
+  pendingCommits: Map<string, PendingCommit>;
+  autoCommitter?: AutoCommitter;
+  processing: Promise<void>;
+  processedReplayId: number | null;
+  isDraining: boolean;
+  isAuthRefreshAttempted: boolean;
+  accessToken?: string;
+}
+
+/**
+ * Options of event streams
+ * @alias StreamOptions
+ * @global
+ */
+export interface StreamOptions {
+  /**
+   * Optional replay ID after which the stream starts. If not supplied, the stream starts at the tip of the event stream.
+   * @type {number | undefined}
+   */
+  replayId?: number;
+  /**
+   * Optional flag for starting the stream with the earliest event in the retention window. Ignored if a replay ID is supplied.
+   * @type {boolean | undefined}
+   */
+  fromEarliestEvent?: boolean;
+  /**
+   * Maximum number of events that are buffered or requested from the server at once (defaults to 100)
+   * @type {number | undefined}
+   */
+  highWaterMark?: number;
+}
+
+/**
+ * State of a subscription that is kept across reconnections
+ * @private
+ */
+interface SubscriptionState {
+  topicName: string;
+  eventEmitter: PubSubEventEmitter;
+  subscribeRequest: Partial<FetchRequest>;
+  isInfiniteEventRequest: boolean;
+  reconnectAttempt: number;
+  subscriberName?: string;
+  flowController?: FlowController;
+  watchdogOptions?: WatchdogOptions;
+  stream: ClientDuplexStream<FetchRequest, FetchResponse> | null;
+  processing: Promise<void>;
+  processedReplayId: number | null;
+  isAuthRefreshAttempted: boolean;
+  accessToken?: string;
+}
+
+/**
+ * Unsubscribe options
+ * @alias UnsubscribeOptions
+ * @global
+ */
+export interface UnsubscribeOptions {
+  /**
+   * If true (default), stops requesting events and waits for the events that were already received to be processed before closing the stream.
+   * Managed subscriptions also commit the replay ID of the last processed event before closing the stream.
+   * Events that they receive while draining are not processed or committed so they're delivered again on the next subscription.
+   * Otherwise, the stream is cancelled right away.
+   * @type {boolean | undefined}
+   */
+  drain?: boolean;
+}
+
+/**
+ * Subscription options
+ * @alias SubscribeOptions
+ * @global
+ */
+export interface SubscribeOptions {
+  /**
+   * Optional handler-acknowledged flow control.
+   * When supplied, the client only requests more events once the outstanding work drops below the high-water mark
+   * instead of requesting a new batch as soon as the previous one is received.
+   * Only available for subscriptions that are kept alive forever (numRequested is null).
+   * @type {FlowControlOptions | undefined}
+   */
+  flowControl?: FlowControlOptions;
+  /**
+   * Optional keepalive watchdog.
+   * The server sends events or keepalive messages at least every 270 seconds.
+   * When the watchdog deadline passes without any message, the subscription emits a 'stalled' event
+   * and, if requested, re-establishes its stream after the replay ID of the last received event.
+   * Stalled streams are re-established with the reconnect policy of the client, or the default policy if the client has none.
+   * @type {WatchdogOptions | undefined}
+   */
+  watchdog?: WatchdogOptions;
+}
+
+/**
+ * Client options
+ * @alias ClientOptions
  * @global
  */
+export interface ClientOptions {
+  /**
+   * Optional policy for reconnecting subscriptions when their gRPC stream ends or fails.
+   * Reconnected subscriptions resume after the replay ID of the last received event.
+   * Subscriptions are not reconnected if no value is supplied.
+   * @type {ReconnectPolicy | undefined}
+   */
+  reconnect?: ReconnectPolicy;
+  /**
+   * Optional store for the replay checkpoints of subscriptions started with subscribeFromCheckpoint.
+   * @type {ReplayCheckpointStore | undefined}
+   */
+  checkpointStore?: ReplayCheckpointStore;
+  /**
+   * Optional validation of received and published payloads against the schemas of their topics and business constraints.
+   * Payloads are not validated if no value is supplied.
+   * @type {PayloadValidationOptions | undefined}
+   */
+  payloadValidation?: PayloadValidationOptions;
+}
 
 /**
- * @typedef {Object} Logger
- * @property {Function} debug
- * @property {Function} info
- * @property {Function} error
- * @property {Function} warn
- * @protected
+ * Client configuration.
+ * Missing auth, endpoint, token cache and proxy settings are read from environment variables.
+ * @alias ClientConfig
+ * @global
  */
+export interface ClientConfig extends ClientOptions {
+  /**
+   * Auth flow configuration or provider of credentials
+   * @type {AuthConfig | AuthProvider | undefined}
+   */
+  auth?: AuthConfig | AuthProvider;
+  /**
+   * Pub/Sub API endpoint formatted as host:port
+   * @type {string | undefined}
+   */
+  endpoint?: string;
+  /**
+   * Optional custom logger. The client uses the console if no value is supplied.
+   * @type {Logger | undefined}
+   */
+  logger?: Logger;
+  /**
+   * Optional encrypted cache that lets process restarts reuse access tokens
+   * @type {TokenCacheOptions | undefined}
+   */
+  tokenCache?: TokenCacheOptions;
+  /**
+   * Optional schema cache shared with other clients.
+   * Schemas are cached by ID so clients only share the schemas whose IDs are identical.
+   * @type {SchemaCache | undefined}
+   */
+  schemaCache?: SchemaCache;
+  /**
+   * Optional gRPC channel options: keepalive, message size, reconnect backoff, additional CA certificates or plaintext mode for local endpoints
+   * @type {ChannelOptions | undefined}
+   */
+  channel?: ChannelOptions;
+  /**
+   * Optional HTTP proxy for the gRPC channel and the auth calls
+   * @type {ProxyOptions | undefined}
+   */
+  proxy?: ProxyOptions;
+}
 
 /**
  * Maximum event batch size suppported by the Pub/Sub API as documented here:
@@ -60,10 +356,9 @@ const MAX_EVENT_BATCH_SIZE = 100;
 export default class PubSubApiClient {
   /**
    * gRPC client
-   * @type {Object}
+   * @type {PubSubClient | null}
    */
-  // @ts-ignore
-  #client;
+  #client: PubSubClient | null = null;
 
   /**
    * Schema cache
@@ -72,24 +367,142 @@ export default class PubSubApiClient {
   #schemaChache;
 
   /**
-   * Map of subscribitions indexed by topic name
-   * @type {Map<string,Object>}
+   * Map of subscriptions indexed by event emitter.
+   * Each subscription has its own gRPC stream so a topic can be subscribed to several times.
+   * @type {Map<PubSubEventEmitter,SubscriptionState>}
+   */
+  #subscriptions: Map<PubSubEventEmitter, SubscriptionState>;
+
+  /**
+   * Map of managed subscriptions indexed by event emitter
+   * @type {Map<PubSubEventEmitter,ManagedSubscription>}
+   */
+  #managedSubscriptions: Map<PubSubEventEmitter, ManagedSubscription>;
+
+  /**
+   * Set of streaming publishers
+   * @type {Set<PubSubPublisher>}
+   */
+  #publishers: Set<PubSubPublisher>;
+
+  /**
+   * Pending schema lookups indexed by schema ID, shared by concurrent calls for the same schema
+   * @type {Map<string,Promise<Schema>>}
+   */
+  #schemaLookups: Map<string, Promise<Schema>>;
+
+  /**
+   * Subscription reconnect policy
+   * @type {ReconnectPolicy | undefined}
+   */
+  #reconnectPolicy?: ReconnectPolicy;
+
+  /**
+   * Replay checkpoint store
+   * @type {ReplayCheckpointStore | undefined}
+   */
+  #checkpointStore?: ReplayCheckpointStore;
+
+  /**
+   * Payload validation options
+   * @type {PayloadValidationOptions | undefined}
+   */
+  #payloadValidation?: PayloadValidationOptions;
+
+  /**
+   * Payload validation schemas indexed by topic name and schema ID
+   * @type {Map<string,ZodTypeAny>}
+   */
+  #payloadSchemas: Map<string, ZodTypeAny>;
+
+  /**
+   * Latest credentials supplied by the auth provider
+   * @type {ConnectionMetadata | null}
+   */
+  #conMetadata: ConnectionMetadata | null;
+
+  /**
+   * Provider of the credentials sent with every gRPC call
+   * @type {AuthProvider | null}
+   */
+  #authProvider: AuthProvider | null;
+
+  /**
+   * Provider of credentials built from the client configuration.
+   * Null with user-supplied authentication.
+   * @type {AuthProvider | null}
    */
-  #subscriptions;
+  #configuredAuthProvider: AuthProvider | null;
 
-  #logger;
+  /**
+   * Pub/Sub API endpoint
+   * @type {string}
+   */
+  #endpoint: string;
+
+  /**
+   * gRPC channel options
+   * @type {ChannelOptions}
+   */
+  #channelOptions: ChannelOptions;
+
+  /**
+   * HTTP proxy of all outbound connections or null if connections are direct
+   * @type {HttpProxy | null}
+   */
+  #proxy: HttpProxy | null;
+
+  /**
+   * Pending access token refresh, shared by all the calls that fail while it's running
+   * @type {Promise<void> | null}
+   */
+  #authRefresh: Promise<void> | null;
+
+  #logger: Logger;
 
   /**
    * Builds a new Pub/Sub API client
-   * @param {Logger} [logger] an optional custom logger. The client uses the console if no value is supplied.
+   * @param {ClientConfig | Logger} [config] client configuration. For backward compatibility, a logger is also accepted.
+   * @param {ClientOptions} [options] optional client options, when the first parameter is a logger
    */
-  constructor(logger = console) {
-    this.#logger = logger;
-    this.#schemaChache = new SchemaCache();
+  constructor(config: ClientConfig | Logger = {}, options?: ClientOptions) {
+    // Support the former (logger, options) signature
+    const clientConfig: ClientConfig =
+      options !== undefined || typeof (config as Logger).info === "function"
+        ? { ...options, logger: config as Logger }
+        : (config as ClientConfig);
+    this.#logger = clientConfig.logger ?? console;
     this.#subscriptions = new Map();
+    this.#managedSubscriptions = new Map();
+    this.#publishers = new Set();
+    this.#schemaLookups = new Map();
+    this.#payloadSchemas = new Map();
+    this.#conMetadata = null;
+    this.#authProvider = null;
+    this.#authRefresh = null;
     // Check and load config
     try {
-      Configuration.load();
+      // @ts-ignore
+      const resolvedConfig = resolveClientConfig(clientConfig);
+      this.#logger = resolvedConfig.logger;
+      this.#schemaChache = resolvedConfig.schemaCache ?? new SchemaCache();
+      this.#endpoint = resolvedConfig.endpoint;
+      this.#channelOptions = resolvedConfig.channel ?? {};
+      this.#proxy = resolvedConfig.proxy
+        ? new HttpProxy(resolvedConfig.proxy)
+        : null;
+      this.#reconnectPolicy = resolvedConfig.reconnect;
+      this.#checkpointStore = resolvedConfig.checkpointStore;
+      this.#payloadValidation = resolvedConfig.payloadValidation;
+      this.#configuredAuthProvider =
+        "type" in resolvedConfig.auth
+          ? SalesforceAuth.createProvider(
+              resolvedConfig.auth,
+              resolvedConfig.tokenCache,
+              this.#proxy ?? undefined,
+              resolvedConfig.logger
+            )
+          : resolvedConfig.auth;
     } catch (error) {
       this.#logger.error(error);
       // @ts-ignore
@@ -101,20 +514,23 @@ export default class PubSubApiClient {
 
   /**
    * Authenticates with Salesforce then, connects to the Pub/Sub API.
+   * @param {AuthProvider} [authProvider] optional provider of credentials. If you don't provide one, the client uses the auth configuration.
    * @returns {Promise<void>} Promise that resolves once the connection is established
    * @memberof PubSubApiClient.prototype
    */
-  async connect() {
-    if (Configuration.isUserSuppliedAuth()) {
+  async connect(authProvider?: AuthProvider) {
+    const provider = authProvider ?? this.#configuredAuthProvider;
+    if (!provider) {
       throw new Error(
-        'You selected user-supplied authentication mode so you cannot use the "connect()" method. Use "connectWithAuth(...)" instead.'
+        'You selected user-supplied authentication mode so you cannot use the "connect()" method without an auth provider. Use "connectWithAuth(...)" instead.'
       );
     }
 
     // Connect to Salesforce to obtain an access token
     let conMetadata;
     try {
-      conMetadata = await SalesforceAuth.authenticate();
+      this.#authProvider = provider;
+      conMetadata = await this.#authProvider.getCredentials();
       this.#logger.info(
         `Connected to Salesforce org ${conMetadata.instanceUrl} as ${conMetadata.username}`
       );
@@ -164,44 +580,51 @@ export default class PubSubApiClient {
         `Invalid Salesforce Org ID format supplied: ${validOrganizationId}`
       );
     }
-    return this.#connectToPubSubApi({
+    const conMetadata = {
       accessToken,
       instanceUrl,
       organizationId: validOrganizationId,
-    });
+    };
+    this.#authProvider = new UserSuppliedAuthProvider(conMetadata);
+    return this.#connectToPubSubApi(conMetadata);
   }
 
   /**
    * Connects to the Pub/Sub API.
-   * @param {import('./auth.js').ConnectionMetadata} conMetadata
+   * @param {ConnectionMetadata} conMetadata
    * @returns {Promise<void>} Promise that resolves once the connection is established
    */
   // @ts-ignore
   async #connectToPubSubApi(conMetadata) {
     // Connect to Pub/Sub API
     try {
-      // Read certificates
-      const rootCert = fs.readFileSync(certifi);
-
       // Load proto definition
 
       // @ts-ignore
       const sfdcPackage = protoDescriptor.eventbus.v1;
 
-      // Prepare gRPC connection
+      // Prepare gRPC connection.
+      // Metadata is generated for each call with the latest credentials of the auth provider.
+      this.#conMetadata = conMetadata;
       // @ts-ignore
       const metaCallback = (_params, callback) => {
-        const meta = new grpc.Metadata();
-        meta.add("accesstoken", conMetadata.accessToken);
-        meta.add("instanceurl", conMetadata.instanceUrl);
-        meta.add("tenantid", conMetadata.organizationId);
-        callback(null, meta);
+        (this.#authProvider as AuthProvider)
+          .getCredentials()
+          .then((credentials) => {
+            this.#conMetadata = credentials;
+            const meta = new grpc.Metadata();
+            meta.add("accesstoken", credentials.accessToken);
+            meta.add("instanceurl", credentials.instanceUrl);
+            meta.add("tenantid", credentials.organizationId as string);
+            callback(null, meta);
+          })
+          .catch((error) => callback(error));
       };
-      const callCreds =
-        grpc.credentials.createFromMetadataGenerator(metaCallback);
-      const combCreds = grpc.credentials.combineChannelCredentials(
-        grpc.credentials.createSsl(rootCert),
-        callCreds
+      const { address, credentials, options } = createChannel(
+        this.#endpoint,
+        this.#channelOptions,
+        metaCallback,
+        this.#proxy ?? undefined
       );
 
       // Return pub/sub gRPC client
@@ -210,9 +633,9 @@ export default class PubSubApiClient {
       //   combCreds
       // );
       // @ts-ignore
-      this.#client = new PubSubClient(Configuration.getPubSubEndpoint(), combCreds)
+      this.#client = new PubSubClient(address, credentials, options)
       this.#logger.info(
-        `Connected to Pub/Sub API endpoint ${Configuration.getPubSubEndpoint()}`
+        `Connected to Pub/Sub API endpoint ${this.#endpoint}`
       );
     } catch (error) {
       // @ts-ignore
@@ -222,6 +645,91 @@ export default class PubSubApiClient {
     }
   }
 
+  /**
+   * Invalidates the credentials of the auth provider and obtains new ones for subsequent gRPC calls.
+   * Concurrent refresh requests share the same authentication.
+   * @returns {Promise<void>} Promise that resolves once the access token is refreshed
+   */
+  #refreshAuth() {
+    if (!this.#authRefresh) {
+      if (!this.#authProvider) {
+        return Promise.reject(new Error("Pub/Sub API client is not connected."));
+      }
+      this.#logger.info("Refreshing Salesforce access token...");
+      this.#authProvider.invalidate();
+      this.#authRefresh = this.#authProvider
+        .getCredentials()
+        .then((conMetadata) => {
+          this.#conMetadata = conMetadata;
+          this.#logger.info("Refreshed Salesforce access token");
+        })
+        .catch((error) => {
+          throw new Error("Failed to refresh Salesforce access token", {
+            cause: error,
+          });
+        })
+        .finally(() => {
+          this.#authRefresh = null;
+        });
+    }
+    return this.#authRefresh as Promise<void>;
+  }
+
+  /**
+   * Checks whether a gRPC call failed because of an expired access token that can be refreshed.
+   * @param {Object} error gRPC error or status
+   * @returns {boolean} true if the access token should be refreshed
+   */
+  #isRefreshableAuthError(error: unknown) {
+    return (
+      (error as Partial<grpc.StatusObject> | undefined)?.code ===
+        grpc.status.UNAUTHENTICATED && Boolean(this.#authProvider)
+    );
+  }
+
+  /**
+   * Runs a unary gRPC call and retries it once with a refreshed access token if it's rejected as unauthenticated.
+   * @param {Function} call function that runs the gRPC call
+   * @returns {Promise<T>} Promise holding the result of the call
+   * @template T
+   */
+  async #callWithAuthRefresh<T>(call: () => Promise<T>) {
+    try {
+      return await call();
+    } catch (error) {
+      if (!this.#isRefreshableAuthError(error)) {
+        throw error;
+      }
+      this.#logger.warn("gRPC call was rejected as unauthenticated");
+      await this.#refreshAuth();
+      return call();
+    }
+  }
+
+  /**
+   * Returns the access token to send in the auth_refresh field of a follow-up fetch request.
+   * Long-lived streams receive the token once after it's refreshed.
+   * @param {Object} subscription subscription state that keeps track of the token sent on its stream
+   * @returns {string | undefined} the refreshed access token or undefined if the stream already has it
+   */
+  #getAuthRefresh(subscription: { accessToken?: string }) {
+    const accessToken = this.#conMetadata?.accessToken;
+    if (!accessToken || subscription.accessToken === accessToken) {
+      return undefined;
+    }
+    subscription.accessToken = accessToken;
+    return accessToken;
+  }
+
+  /**
+   * Returns the ID of the org that the client is connected to.
+   * @returns {string | undefined} the org ID or undefined if the client isn't connected
+   * @memberof PubSubApiClient.prototype
+   */
+  getOrganizationId() {
+    return this.#conMetadata?.organizationId;
+  }
+
   /**
    * Get connectivity state from current channel.
    * @returns {Promise<connectivityState>} Promise that holds channel's connectivity information {@link connectivityState}
@@ -231,20 +739,82 @@ export default class PubSubApiClient {
     return this.#client?.getChannel()?.getConnectivityState(false);
   }
 
+  /**
+   * Retrieves information about a topic, including the permissions of the integration user and the current schema ID.
+   * @param {string} topicName name of the topic that we're fetching
+   * @returns {Promise<TopicInfo>} Promise holding the topic information
+   * @memberof PubSubApiClient.prototype
+   */
+  async getTopic(topicName: string): Promise<TopicInfo> {
+    // Check client connection
+    if (!this.#client) {
+      throw new Error("Pub/Sub API client is not connected.");
+    }
+    try {
+      return await this.#fetchTopicInfoWithClient(topicName);
+    } catch (error) {
+      // @ts-ignore
+      throw new Error(`Failed to retrieve topic ${topicName}`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Loads the current schema of a topic into the schema cache so that the first events of a subscription are decoded without waiting for GetSchema.
+   * @param {string} topicName name of the topic
+   * @returns {Promise<void>} Promise that resolves once the schema is cached
+   * @memberof PubSubApiClient.prototype
+   */
+  async prefetchSchema(topicName: string) {
+    const topicInfo = await this.getTopic(topicName);
+    try {
+      await this.#getEventSchemaFromId(topicInfo.schemaId);
+    } catch (error) {
+      // @ts-ignore
+      throw new Error(`Failed to prefetch schema of topic ${topicName}`, {
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Retrieves the current schema of a topic.
+   * @param {string} topicName name of the topic
+   * @returns {Promise<TopicSchema>} Promise holding the ID and the Avro JSON of the schema
+   * @memberof PubSubApiClient.prototype
+   */
+  async getTopicSchema(topicName: string): Promise<TopicSchema> {
+    const topicInfo = await this.getTopic(topicName);
+    try {
+      const schema = await this.#getEventSchemaFromId(topicInfo.schemaId);
+      return { topicName, schemaId: schema.id, schemaJson: schema.json };
+    } catch (error) {
+      // @ts-ignore
+      throw new Error(`Failed to retrieve schema of topic ${topicName}`, {
+        cause: error,
+      });
+    }
+  }
+
   /**
    * Subscribes to a topic and retrieves all past events in retention window.
    * @param {string} topicName name of the topic that we're subscribing to
    * @param {number | null} [numRequested] optional number of events requested. If not supplied or null, the client keeps the subscription alive forever.
+   * @param {SubscribeOptions} [options] optional subscription options
    * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events
    * @memberof PubSubApiClient.prototype
    */
   // @ts-ignore
-  async subscribeFromEarliestEvent(topicName, numRequested = null) {
-    return this.#subscribe({
-      topicName,
-      numRequested,
-      replayPreset: 1,
-    });
+  async subscribeFromEarliestEvent<T = any>(topicName, numRequested: number | null = null, options?: SubscribeOptions): Promise<PubSubEventEmitter<T>> {
+    return this.#subscribe(
+      {
+        topicName,
+        numRequested,
+        replayPreset: 1,
+      },
+      options
+    );
   }
 
   /**
@@ -252,182 +822,1270 @@ export default class PubSubApiClient {
    * @param {string} topicName name of the topic that we're subscribing to
    * @param {number | null} numRequested number of events requested. If null, the client keeps the subscription alive forever.
    * @param {number} replayId replay ID
+   * @param {SubscribeOptions} [options] optional subscription options
    * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events
    * @memberof PubSubApiClient.prototype
    */
   // @ts-ignore
-  async subscribeFromReplayId(topicName, numRequested, replayId) {
-    return this.#subscribe({
-      topicName,
-      numRequested,
-      replayPreset: 2,
-      replayId: encodeReplayId(replayId),
-    });
+  async subscribeFromReplayId<T = any>(topicName, numRequested, replayId, options?: SubscribeOptions): Promise<PubSubEventEmitter<T>> {
+    return this.#subscribe(
+      {
+        topicName,
+        numRequested,
+        replayPreset: 2,
+        replayId: encodeReplayId(replayId),
+      },
+      options
+    );
   }
 
   /**
    * Subscribes to a topic.
    * @param {string} topicName name of the topic that we're subscribing to
    * @param {number | null} [numRequested] optional number of events requested. If not supplied or null, the client keeps the subscription alive forever.
+   * @param {SubscribeOptions} [options] optional subscription options
    * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events
    * @memberof PubSubApiClient.prototype
    */
   // @ts-ignore
-  async subscribe(topicName, numRequested = null) {
-    return this.#subscribe({
-      topicName,
-      numRequested,
-    });
+  async subscribe<T = any>(topicName, numRequested: number | null = null, options?: SubscribeOptions): Promise<PubSubEventEmitter<T>> {
+    return this.#subscribe(
+      {
+        topicName,
+        numRequested,
+      },
+      options
+    );
   }
 
   /**
-   * Subscribes to a topic using the gRPC client and an event schema
-   * @param {object} subscribeRequest subscription request
-   * @return {PubSubEventEmitter} emitter that allows you to listen to received events and stream lifecycle events
+   * Subscribes to a topic and resumes after the replay ID stored for a subscriber in the checkpoint store.
+   * Subscribes from the tip of the stream if there is no stored replay ID.
+   * The replay ID of processed events is saved automatically as the subscription progresses.
+   * @param {string} topicName name of the topic that we're subscribing to
+   * @param {string} subscriberName name of the subscriber that identifies the checkpoint for this topic
+   * @param {number | null} [numRequested] optional number of events requested. If not supplied or null, the client keeps the subscription alive forever.
+   * @param {SubscribeOptions} [options] optional subscription options
+   * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events
+   * @memberof PubSubApiClient.prototype
    */
-  // @ts-ignore
-  async #subscribe(subscribeRequest) {
-    console.log("subscribeRequest:", subscribeRequest); 
-    let { topicName, numRequested } = subscribeRequest;
+  async subscribeFromCheckpoint<T = any>(
+    topicName: string,
+    subscriberName: string,
+    numRequested: number | null = null,
+    options?: SubscribeOptions
+  ): Promise<PubSubEventEmitter<T>> {
+    if (!this.#checkpointStore) {
+      throw new Error(
+        "No replay checkpoint store configured. Supply a checkpointStore in the client options."
+      );
+    }
+    let replayId;
     try {
-      // Check number of requested events
-      let isInfiniteEventRequest = false;
-      if (numRequested === null || numRequested === undefined) {
-        isInfiniteEventRequest = true;
-        subscribeRequest.numRequested = numRequested = MAX_EVENT_BATCH_SIZE;
-      } else {
-        if (typeof numRequested !== "number") {
-          throw new Error(
-            `Expected a number type for number of requested events but got ${typeof numRequested}`
-          );
-        }
-        if (!Number.isSafeInteger(numRequested) || numRequested < 1) {
-          throw new Error(
-            `Expected an integer greater than 1 for number of requested events but got ${numRequested}`
-          );
-        }
-        if (numRequested > MAX_EVENT_BATCH_SIZE) {
-          this.#logger.warn(
-            `The number of requested events for ${topicName} exceeds max event batch size (${MAX_EVENT_BATCH_SIZE}).`
-          );
+      replayId = await this.#checkpointStore.load(topicName, subscriberName);
+    } catch (error) {
+      throw new Error(
+        `Failed to load replay checkpoint of ${subscriberName} for topic ${topicName}`,
+        // @ts-ignore
+        { cause: error }
+      );
+    }
+    if (replayId === null) {
+      this.#logger.info(
+        `No replay checkpoint found for ${subscriberName} on ${topicName}, subscribing from the tip of the stream`
+      );
+      return this.#subscribe({ topicName, numRequested }, options, subscriberName);
+    }
+    this.#logger.info(
+      `Resuming subscription of ${subscriberName} on ${topicName} after replay ID ${replayId}`
+    );
+    return this.#subscribe(
+      {
+        topicName,
+        numRequested,
+        replayPreset: ReplayPreset.CUSTOM,
+        replayId: encodeReplayId(replayId),
+      },
+      options,
+      subscriberName
+    );
+  }
+
+  /**
+   * Subscribes to a topic and exposes events as an object-mode Readable stream.
+   * The stream is also an AsyncIterable so you can consume it with `for await`.
+   * Events are only requested from the server as the stream is consumed, and subscription errors are propagated to the stream.
+   * Destroying the stream (for example by breaking out of a `for await` loop) closes the subscription.
+   * @param {string} topicName name of the topic that we're subscribing to
+   * @param {StreamOptions} [options] optional stream options
+   * @returns {Readable & AsyncIterable<ParsedEvent>} object-mode Readable stream of parsed events
+   * @memberof PubSubApiClient.prototype
+   */
+  stream<T = any>(
+    topicName: string,
+    options: StreamOptions = {}
+  ): Readable & AsyncIterable<ParsedEvent<T>> {
+    const highWaterMark = options.highWaterMark ?? MAX_EVENT_BATCH_SIZE;
+    let eventEmitter: PubSubEventEmitter | undefined;
+    let streamError: Error | undefined;
+    // Acknowledgements of events that were pushed while the stream buffer was full
+    const pendingAcks: (() => void)[] = [];
+
+    const readable: Readable = new Readable({
+      objectMode: true,
+      highWaterMark,
+      construct: (callback) => {
+        const subscribeRequest =
+          options.replayId !== undefined
+            ? {
+                topicName,
+                replayPreset: ReplayPreset.CUSTOM,
+                replayId: encodeReplayId(options.replayId),
+              }
+            : {
+                topicName,
+                replayPreset: options.fromEarliestEvent
+                  ? ReplayPreset.EARLIEST
+                  : ReplayPreset.LATEST,
+              };
+        this.#subscribe(subscribeRequest, {
+          flowControl: { highWaterMark, manualAck: true },
+        })
+          .then((emitter) => {
+            eventEmitter = emitter;
+            emitter.on("data", (event) => {
+              const ack = event.ack as () => void;
+              if (readable.push(event)) {
+                ack();
+              } else {
+                pendingAcks.push(ack);
+              }
+            });
+            emitter.on("error", (error) => {
+              // gRPC stream errors are followed by a reconnection or by the end of the subscription
+              if ("code" in error && "details" in error) {
+                streamError = error;
+              } else {
+                readable.destroy(error);
+              }
+            });
+            emitter.on("reconnecting", () => {
+              streamError = undefined;
+            });
+            emitter.on("end", () => {
+              if (streamError) {
+                readable.destroy(streamError);
+              } else {
+                readable.push(null);
+              }
+            });
+            callback();
+          })
+          .catch(callback);
+      },
+      read: () => {
+        // The consumer wants more events: release the events that were held back
+        pendingAcks.splice(0).forEach((ack) => ack());
+      },
+      destroy: (error, callback) => {
+        if (eventEmitter) {
+          this.#closeSubscription(eventEmitter);
         }
-      }
+        callback(error);
+      },
+    });
+    return readable;
+  }
+
+  /**
+   * Subscribes to a topic using the gRPC client and an event schema
+   * @param {object} subscribeRequest subscription request
+   * @param {SubscribeOptions} [options] optional subscription options
+   * @param {string} [subscriberName] optional name of the subscriber whose replay checkpoint is saved as the subscription progresses
+   * @return {PubSubEventEmitter} emitter that allows you to listen to received events and stream lifecycle events
+   */
+  async #subscribe(
+    // @ts-ignore
+    subscribeRequest,
+    options: SubscribeOptions = {},
+    subscriberName?: string
+  ) {
+    let { topicName, numRequested } = subscribeRequest;
+    try {
+      // Check number of requested events
+      const isInfiniteEventRequest = numRequested === null || numRequested === undefined;
+      subscribeRequest.numRequested = numRequested = this.#checkNumRequested(
+        topicName,
+        numRequested
+      );
       // Check client connection
       if (!this.#client) {
         throw new Error("Pub/Sub API client is not connected.");
       }
 
-      // Check for an existing subscription
-      let subscription = this.#subscriptions.get(topicName);
-
-      // Send subscription request
-      if (!subscription) {
-        subscription = this.#client.subscribe();
-        this.#subscriptions.set(topicName, subscription);
+      // Check topic permissions
+      const topicInfo = await this.getTopic(topicName);
+      if (!topicInfo.canSubscribe) {
+        throw new Error(
+          `Missing permission to subscribe to topic ${topicName}. Check the permissions of the integration user.`
+        );
       }
-      console.log("subscribeRequest:", subscribeRequest);
-      const subscribeRequest2 = FetchRequest.fromPartial(subscribeRequest);
-      subscription.write(subscribeRequest2);
-      this.#logger.info(
-        `Subscribe request sent for ${numRequested} events from ${topicName}...`
-      );
 
-      // Listen to new events
+      // Send subscription request
       const eventEmitter = new PubSubEventEmitter(topicName, numRequested);
-      // @ts-ignore
-      subscription.on("data", async (data) => {
-        const latestReplayId = decodeReplayId(data.latestReplayId);
-        if (data.events) {
-          this.#logger.info(
-            `Received ${data.events.length} events, latest replay ID: ${latestReplayId}`
+      const state: SubscriptionState = {
+        topicName,
+        eventEmitter,
+        subscribeRequest,
+        isInfiniteEventRequest,
+        reconnectAttempt: 0,
+        subscriberName,
+        watchdogOptions: options.watchdog,
+        stream: null,
+        processing: Promise.resolve(),
+        processedReplayId: null,
+        isAuthRefreshAttempted: false,
+      };
+      if (options.flowControl) {
+        if (!isInfiniteEventRequest) {
+          throw new Error(
+            "Flow control is only available for subscriptions that are kept alive forever (numRequested must be null)."
           );
-          for (const event of data.events) {
-            try {
-              // Load event schema from cache or from the gRPC client
-              const schema = await this.#getEventSchemaFromId(
-                event.event.schemaId
-              );
-              // Parse event thanks to schema
-              //console.log("Step-1", schema);
-              //console.log("Step-2", event);
-              // @ts-ignore
-              const parsedEvent = parseEvent(schema, event, console);
-              this.#logger.debug(parsedEvent);
-              eventEmitter.emit("data", parsedEvent);
-            } catch (error) {
-              // Report event parsing error with replay ID if possible
-              let replayId;
-              try {
-                replayId = decodeReplayId(event.replayId);
-                // eslint-disable-next-line no-empty, no-unused-vars
-              } catch (error) {}
-              const message = replayId
-                ? `Failed to parse event with replay ID ${replayId}`
-                : `Failed to parse event with unknown replay ID (latest replay ID was ${latestReplayId})`;
-              const parseError = new EventParseError(
-                message,
-                error as Error,
-                replayId,
-                event,
-                latestReplayId
-              );
-              eventEmitter.emit("error", parseError);
-              this.#logger.error(parseError);
-            }
+        }
+        state.flowController = new FlowController(
+          options.flowControl,
+          (count) =>
+            // The stream may be closed or reconnecting by the time events are processed
+            this.requestAdditionalEvents(eventEmitter, count).catch((error) =>
+              this.#logger.warn(error.message)
+            ),
+          (replayId) => {
+            state.processedReplayId = replayId;
+            this.#saveCheckpoint(state, replayId);
+          }
+        );
+        subscribeRequest.numRequested =
+          state.flowController.getInitialRequestCount();
+        eventEmitter._resetEventCount(subscribeRequest.numRequested);
+      }
+      this.#openSubscriptionStream(state, subscribeRequest);
+      this.#subscriptions.set(eventEmitter, state);
+      return eventEmitter;
+    } catch (error) {
+      // @ts-ignore
+      throw new Error(`Failed to subscribe to events for topic ${topicName}`, {
+        cause: error,
+      });
+    }
+  }
 
-            // Handle last requested event
-            if (
-              eventEmitter.getReceivedEventCount() ===
-              eventEmitter.getRequestedEventCount()
-            ) {
-              if (isInfiniteEventRequest) {
-                // Request additional events
-                this.requestAdditionalEvents(
-                  eventEmitter,
-                  MAX_EVENT_BATCH_SIZE
-                );
-              } else {
-                // Emit a 'lastevent' event when reaching the last requested event count
-                // @ts-ignore
-                eventEmitter.emit("lastevent");
-              }
-            }
+  /**
+   * Opens the gRPC stream of a subscription, sends the fetch request and listens to the stream.
+   * @param {SubscriptionState} state subscription state
+   * @param {object} fetchRequest first fetch request of the stream
+   */
+  #openSubscriptionStream(
+    state: SubscriptionState,
+    fetchRequest: Partial<FetchRequest>
+  ) {
+    const {
+      topicName,
+      eventEmitter,
+      isInfiniteEventRequest,
+      flowController,
+      watchdogOptions,
+    } = state;
+    let isReconnecting = false;
+
+    // Watch for streams that stop receiving events and keepalives
+    const watchdog = watchdogOptions
+      ? new StreamWatchdog(watchdogOptions, (timeoutMs) => {
+          if (!isActiveStream()) {
+            return;
           }
-        } else {
-          // If there are no events then, every 270 seconds (or less) the server publishes a keepalive message with
-          // the latestReplayId and pendingNumRequested (the number of events that the client is still waiting for)
-          this.#logger.debug(
-            `Received keepalive message. Latest replay ID: ${latestReplayId}`
+          this.#logger.warn(
+            `No events or keepalives received from ${topicName} in ${timeoutMs}ms (subscription ${eventEmitter.getSubscriptionId()})`
           );
-          data.latestReplayId = latestReplayId; // Replace original value with decoded value
-          eventEmitter.emit("keepalive", data);
+          eventEmitter.emit("stalled", {
+            timeoutMs,
+            latestReplayId: eventEmitter.getLatestReplayId(),
+          });
+          if (watchdogOptions.reconnect) {
+            // Tear down the stalled stream without ending the subscription
+            isReconnecting = true;
+            state.stream = null;
+            subscription.cancel();
+            this.#reconnectStalledStream(state, timeoutMs);
+          }
+        })
+      : null;
+
+    if (!this.#client) {
+      throw new Error("Pub/Sub API client is not connected.");
+    }
+    // Send subscription request on a new stream
+    const subscription: ClientDuplexStream<FetchRequest, FetchResponse> =
+      this.#client.subscribe();
+    state.stream = subscription;
+    state.accessToken = this.#conMetadata?.accessToken;
+    watchdog?.reset();
+    subscription.write(FetchRequest.fromPartial(fetchRequest));
+    this.#logger.info(
+      `Subscribe request sent for ${fetchRequest.numRequested} events from ${topicName} (subscription ${eventEmitter.getSubscriptionId()})...`
+    );
+    // The stream is active until it's replaced or the subscription is closed by the client
+    const isActiveStream = () =>
+      this.#subscriptions.get(eventEmitter) === state &&
+      state.stream === subscription;
+
+    // Listen to new events.
+    // Responses are processed one at a time so that checkpoints follow the order of events.
+    subscription.on("data", (data: FetchResponse) => {
+      state.reconnectAttempt = 0;
+      state.isAuthRefreshAttempted = false;
+      watchdog?.reset();
+      state.processing = state.processing.then(async () => {
+        // Checkpoints are saved as events complete
+        const isKeepalive = data.events.length === 0;
+        const keepaliveReplayId =
+          isKeepalive && (!flowController || flowController.isIdle())
+            ? decodeReplayId(data.latestReplayId)
+            : null;
+        await this.#processFetchResponse(eventEmitter, data, {
+          isInfiniteEventRequest,
+          flowController,
+          onEventProcessed: (replayId) => {
+            state.processedReplayId = replayId;
+            this.#saveCheckpoint(state, replayId);
+          },
+        });
+        if (keepaliveReplayId !== null) {
+          // The listeners of the events received before the keepalive may still be running
+          eventEmitter
+            ._waitForListeners()
+            .then(() => this.#saveCheckpoint(state, keepaliveReplayId));
         }
+      }).catch((error) => this.#logger.error(error));
+    });
+    subscription.on("end", () => {
+      if (isReconnecting) {
+        return;
+      }
+      if (isActiveStream()) {
+        this.#subscriptions.delete(eventEmitter);
+      }
+      this.#logger.info("gRPC stream ended");
+      eventEmitter.emit("end");
+    });
+    subscription.on("error", (error: grpc.ServiceError) => {
+      // Streams that are cancelled when unsubscribing are expected to fail
+      if (!isActiveStream() && error.code === grpc.status.CANCELLED) {
+        this.#logger.debug(`gRPC stream cancelled: ${error.details}`);
+        return;
+      }
+      // Expired access tokens are refreshed once the stream status is received
+      if (
+        isActiveStream() &&
+        this.#isRefreshableAuthError(error) &&
+        !state.isAuthRefreshAttempted
+      ) {
+        this.#logger.warn(
+          `gRPC stream of ${topicName} was rejected as unauthenticated`
+        );
+        return;
+      }
+      this.#logger.error(`gRPC stream error: ${JSON.stringify(error)}`);
+      eventEmitter.emit("error", error);
+    });
+    subscription.on("status", (status) => {
+      watchdog?.stop();
+      this.#logger.info(`gRPC stream status: ${JSON.stringify(status)}`);
+      eventEmitter.emit("status", status);
+      // Reconnect unless the stream was closed by the client
+      if (!isActiveStream()) {
+        return;
+      }
+      if (
+        this.#isRefreshableAuthError(status) &&
+        !state.isAuthRefreshAttempted
+      ) {
+        isReconnecting = true;
+        state.stream = null;
+        this.#resumeSubscriptionWithNewToken(state, status);
+      } else {
+        isReconnecting = this.#scheduleReconnect(state, status);
+        if (isReconnecting) {
+          state.stream = null;
+        }
+      }
+    });
+  }
+
+  /**
+   * Saves the replay checkpoint of a subscription.
+   * Failures are reported with the subscription's event emitter.
+   * @param {SubscriptionState} state subscription state
+   * @param {number} replayId replay ID of the last processed event
+   */
+  #saveCheckpoint(state: SubscriptionState, replayId: number) {
+    const { topicName, subscriberName, eventEmitter } = state;
+    if (!this.#checkpointStore || !subscriberName) {
+      return;
+    }
+    this.#checkpointStore
+      .save(topicName, subscriberName, replayId)
+      .catch((error) => {
+        const checkpointError = new Error(
+          `Failed to save replay checkpoint ${replayId} of ${subscriberName} for topic ${topicName}`,
+          // @ts-ignore
+          { cause: error }
+        );
+        this.#logger.error(checkpointError);
+        eventEmitter.emit("error", checkpointError);
       });
-      subscription.on("end", () => {
-        this.#subscriptions.delete(topicName);
-        this.#logger.info("gRPC stream ended");
-        // @ts-ignore
+  }
+
+  /**
+   * Schedules the reconnection of a subscription whose stream closed according to the reconnect policy.
+   * @param {SubscriptionState} state subscription state
+   * @param {Object} status gRPC status of the closed stream
+   * @param {ReconnectPolicy} [reconnectPolicy] reconnect policy, defaults to the policy of the client
+   * @returns {boolean} true if a reconnection was scheduled
+   */
+  #scheduleReconnect(
+    state: SubscriptionState,
+    status: Pick<grpc.StatusObject, "code" | "details">,
+    reconnectPolicy = this.#reconnectPolicy
+  ) {
+    const { topicName, eventEmitter, isInfiniteEventRequest } = state;
+    if (!reconnectPolicy || !isRetryableStatus(status.code)) {
+      return false;
+    }
+    // Finite subscriptions that received all requested events are done
+    if (
+      !isInfiniteEventRequest &&
+      eventEmitter.getReceivedEventCount() >= eventEmitter.getRequestedEventCount()
+    ) {
+      return false;
+    }
+    const delayMs = getReconnectDelay(reconnectPolicy, state.reconnectAttempt);
+    if (delayMs === null) {
+      this.#logger.warn(
+        `Giving up reconnecting to ${topicName} after ${state.reconnectAttempt} attempts`
+      );
+      return false;
+    }
+    state.reconnectAttempt++;
+    const attempt = state.reconnectAttempt;
+    this.#logger.info(
+      `Reconnecting to ${topicName} in ${delayMs}ms (attempt ${attempt})`
+    );
+    eventEmitter.emit("reconnecting", { attempt, delayMs, status });
+    setTimeout(() => this.#reconnect(state), delayMs);
+    return true;
+  }
+
+  /**
+   * Re-establishes a subscription after its stream was torn down by the keepalive watchdog.
+   * Reconnections follow the reconnect policy of the client, or the default policy if the client has none.
+   * @param {SubscriptionState} state subscription state
+   * @param {number} timeoutMs watchdog timeout that expired
+   */
+  #reconnectStalledStream(state: SubscriptionState, timeoutMs: number) {
+    const status = {
+      code: grpc.status.DEADLINE_EXCEEDED,
+      details: `No events or keepalives received in ${timeoutMs}ms`,
+    };
+    if (!this.#scheduleReconnect(state, status, this.#reconnectPolicy ?? {})) {
+      this.#subscriptions.delete(state.eventEmitter);
+      state.eventEmitter.emit("end");
+    }
+  }
+
+  /**
+   * Refreshes the access token and re-subscribes right away after a stream was rejected as unauthenticated.
+   * @param {SubscriptionState} state subscription state
+   * @param {Object} status gRPC status of the closed stream
+   */
+  #resumeSubscriptionWithNewToken(
+    state: SubscriptionState,
+    status: grpc.StatusObject
+  ) {
+    const { topicName, eventEmitter } = state;
+    state.isAuthRefreshAttempted = true;
+    state.reconnectAttempt++;
+    eventEmitter.emit("reconnecting", {
+      attempt: state.reconnectAttempt,
+      delayMs: 0,
+      status,
+    });
+    this.#refreshAuth()
+      .then(() => this.#reconnect(state))
+      .catch((error) => {
+        this.#logger.error(
+          `Failed to resume subscription to ${topicName}: ${error}`
+        );
+        this.#subscriptions.delete(eventEmitter);
+        eventEmitter.emit("error", error);
         eventEmitter.emit("end");
       });
-      // @ts-ignore
-      subscription.on("error", (error) => {
-        this.#logger.error(`gRPC stream error: ${JSON.stringify(error)}`);
+  }
+
+  /**
+   * Re-subscribes with a new gRPC stream after the replay ID of the last received event.
+   * The subscription keeps the same event emitter so that listeners survive the reconnection.
+   * @param {SubscriptionState} state subscription state
+   */
+  #reconnect(state: SubscriptionState) {
+    const { topicName, eventEmitter, isInfiniteEventRequest, subscribeRequest } =
+      state;
+    // Client was disconnected or subscription was closed while waiting
+    if (!this.#client || this.#subscriptions.get(eventEmitter) !== state) {
+      this.#subscriptions.delete(eventEmitter);
+      eventEmitter.emit("end");
+      return;
+    }
+
+    // Request remaining events
+    let numRequested;
+    if (state.flowController) {
+      numRequested = state.flowController.getInitialRequestCount();
+    } else {
+      numRequested = isInfiniteEventRequest
+        ? MAX_EVENT_BATCH_SIZE
+        : eventEmitter.getRequestedEventCount() -
+          eventEmitter.getReceivedEventCount();
+    }
+    eventEmitter._resetEventCount(numRequested);
+
+    // Resume after last received event or fall back to the original replay settings
+    const latestReplayId = eventEmitter.getLatestReplayId();
+    const fetchRequest =
+      latestReplayId !== null
+        ? {
+            topicName,
+            numRequested,
+            replayPreset: ReplayPreset.CUSTOM,
+            replayId: encodeReplayId(latestReplayId),
+          }
+        : { ...subscribeRequest, numRequested };
+    try {
+      this.#openSubscriptionStream(state, fetchRequest);
+      this.#logger.info(`Reconnected to ${topicName}`);
+      eventEmitter.emit("reconnected", { attempt: state.reconnectAttempt });
+    } catch (error) {
+      this.#logger.error(`Failed to reconnect to ${topicName}: ${error}`);
+      const status = { code: grpc.status.UNKNOWN, details: `${error}` };
+      if (!this.#scheduleReconnect(state, status)) {
+        this.#subscriptions.delete(eventEmitter);
+        eventEmitter.emit("end");
+      }
+    }
+  }
+
+  /**
+   * Subscribes to a managed subscription.
+   * Salesforce keeps track of the position of managed subscriptions thanks to the replay IDs that you commit with {@link commitReplayId}.
+   * @param {ManagedSubscribeRequest} subscribeRequest managed subscription request
+   * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events.
+   * The emitter's topic name is the developer name or the ID of the managed subscription.
+   * @memberof PubSubApiClient.prototype
+   */
+  async subscribeManaged<T = any>(subscribeRequest: ManagedSubscribeRequest): Promise<PubSubEventEmitter<T>> {
+    const { subscriptionId, developerName } = subscribeRequest;
+    const subscriptionName = developerName ?? subscriptionId;
+    try {
+      // Check subscription identifier
+      if ((!subscriptionId && !developerName) || (subscriptionId && developerName)) {
+        throw new Error(
+          "Expected either a subscription ID or a developer name for managed subscription."
+        );
+      }
+      // Check number of requested events
+      const isInfiniteEventRequest =
+        subscribeRequest.numRequested === null ||
+        subscribeRequest.numRequested === undefined;
+      const numRequested = this.#checkNumRequested(
+        subscriptionName,
+        subscribeRequest.numRequested
+      );
+      // Check client connection
+      if (!this.#client) {
+        throw new Error("Pub/Sub API client is not connected.");
+      }
+
+      // Commit replay IDs automatically if requested
+      const eventEmitter = new PubSubEventEmitter(subscriptionName, numRequested);
+      const managedSubscription: ManagedSubscription = {
+        subscribeRequest: { subscriptionId, developerName },
+        isInfiniteEventRequest,
+        stream: null,
+        pendingCommits: new Map(),
+        processing: Promise.resolve(),
+        processedReplayId: null,
+        isDraining: false,
+        isAuthRefreshAttempted: false,
+      };
+      if (subscribeRequest.commitPolicy) {
+        managedSubscription.autoCommitter = new AutoCommitter(
+          subscribeRequest.commitPolicy,
+          (replayId) => this.commitReplayId(eventEmitter, replayId),
+          (error) => eventEmitter.emit("error", error),
+          this.#logger
+        );
+      }
+
+      // Send subscription request
+      this.#openManagedStream(eventEmitter, managedSubscription, numRequested);
+      this.#managedSubscriptions.set(eventEmitter, managedSubscription);
+      return eventEmitter;
+    } catch (error) {
+      throw new Error(
+        `Failed to subscribe to managed subscription ${subscriptionName}`,
+        // @ts-ignore
+        {
+          cause: error,
+        }
+      );
+    }
+  }
+
+  /**
+   * Opens the gRPC stream of a managed subscription, sends the fetch request and listens to the stream.
+   * @param {PubSubEventEmitter} eventEmitter event emitter of the managed subscription
+   * @param {ManagedSubscription} managedSubscription managed subscription state
+   * @param {number} numRequested number of requested events
+   */
+  #openManagedStream(
+    eventEmitter: PubSubEventEmitter,
+    managedSubscription: ManagedSubscription,
+    numRequested: number
+  ) {
+    const { subscribeRequest, isInfiniteEventRequest, autoCommitter } =
+      managedSubscription;
+    const subscriptionName = eventEmitter.getTopicName();
+    if (!this.#client) {
+      throw new Error("Pub/Sub API client is not connected.");
+    }
+    const stream: ClientDuplexStream<ManagedFetchRequest, ManagedFetchResponse> =
+      this.#client.managedSubscribe();
+    managedSubscription.stream = stream;
+    managedSubscription.accessToken = this.#conMetadata?.accessToken;
+    stream.write(
+      ManagedFetchRequest.fromPartial({
+        ...subscribeRequest,
+        numRequested,
+      })
+    );
+    this.#logger.info(
+      `Managed subscribe request sent for ${numRequested} events from ${subscriptionName}...`
+    );
+    // The stream is active until it's replaced or the subscription is closed by the client
+    const isActiveStream = () =>
+      this.#managedSubscriptions.get(eventEmitter) === managedSubscription &&
+      managedSubscription.stream === stream;
+
+    // Listen to new events and commit responses.
+    // Responses are processed one at a time so that commits follow the order of events.
+    let isReconnecting = false;
+    stream.on("data", (data: ManagedFetchResponse) => {
+      managedSubscription.isAuthRefreshAttempted = false;
+      managedSubscription.processing = managedSubscription.processing.then(async () => {
+        if (data.commitResponse) {
+          this.#processCommitResponse(managedSubscription, data.commitResponse);
+          if (data.events.length === 0) {
+            return;
+          }
+        }
+        // Events received while draining are left uncommitted so that they're delivered again
+        if (managedSubscription.isDraining) {
+          return;
+        }
+        if (autoCommitter && data.events.length === 0) {
+          // The listeners of the events received before the keepalive may still be running
+          await eventEmitter._waitForListeners();
+          if (!managedSubscription.isDraining) {
+            autoCommitter.onKeepalive(decodeReplayId(data.latestReplayId));
+          }
+        }
+        await this.#processFetchResponse(eventEmitter, data, {
+          isInfiniteEventRequest,
+          awaitListeners: autoCommitter?.isAwaitingListeners(),
+          onEventProcessed: (replayId) => {
+            managedSubscription.processedReplayId = replayId;
+            autoCommitter?.onEventProcessed(replayId);
+          },
+        });
+      }).catch((error) => this.#logger.error(error));
+    });
+    stream.on("end", () => {
+      if (isReconnecting) {
+        return;
+      }
+      if (isActiveStream()) {
+        this.#managedSubscriptions.delete(eventEmitter);
+      }
+      autoCommitter?.close();
+      this.#rejectPendingCommits(
+        managedSubscription,
+        new Error(`Managed subscription ${subscriptionName} ended before commit response was received`)
+      );
+      this.#logger.info("gRPC managed stream ended");
+      eventEmitter.emit("end");
+    });
+    stream.on("error", (error: grpc.ServiceError) => {
+      this.#rejectPendingCommits(managedSubscription, error);
+      // Streams that are closed when unsubscribing are expected to fail
+      if (!isActiveStream() && error.code === grpc.status.CANCELLED) {
+        this.#logger.debug(`gRPC managed stream cancelled: ${error.details}`);
+        return;
+      }
+      // Expired access tokens are refreshed once the stream status is received
+      if (isActiveStream() && this.#isRefreshableAuthError(error)) {
+        this.#logger.warn(
+          `gRPC managed stream of ${subscriptionName} was rejected as unauthenticated`
+        );
+        return;
+      }
+      autoCommitter?.close();
+      this.#logger.error(`gRPC managed stream error: ${JSON.stringify(error)}`);
+      eventEmitter.emit("error", error);
+    });
+    stream.on("status", (status) => {
+      this.#logger.info(`gRPC managed stream status: ${JSON.stringify(status)}`);
+      eventEmitter.emit("status", status);
+      if (
+        isActiveStream() &&
+        this.#isRefreshableAuthError(status) &&
+        !managedSubscription.isAuthRefreshAttempted
+      ) {
+        isReconnecting = true;
+        managedSubscription.stream = null;
+        this.#resumeManagedSubscriptionWithNewToken(
+          eventEmitter,
+          managedSubscription,
+          status
+        );
+      }
+    });
+  }
+
+  /**
+   * Refreshes the access token and re-subscribes to a managed subscription whose stream was rejected as unauthenticated.
+   * Salesforce resumes managed subscriptions after the last committed replay ID.
+   * @param {PubSubEventEmitter} eventEmitter event emitter of the managed subscription
+   * @param {ManagedSubscription} managedSubscription managed subscription state
+   * @param {Object} status gRPC status of the closed stream
+   */
+  #resumeManagedSubscriptionWithNewToken(
+    eventEmitter: PubSubEventEmitter,
+    managedSubscription: ManagedSubscription,
+    status: grpc.StatusObject
+  ) {
+    const subscriptionName = eventEmitter.getTopicName();
+    managedSubscription.isAuthRefreshAttempted = true;
+    eventEmitter.emit("reconnecting", { attempt: 1, delayMs: 0, status });
+    this.#refreshAuth()
+      .then(() => {
+        // Client was disconnected or subscription was closed while waiting
+        if (
+          !this.#client ||
+          this.#managedSubscriptions.get(eventEmitter) !== managedSubscription
+        ) {
+          this.#managedSubscriptions.delete(eventEmitter);
+          eventEmitter.emit("end");
+          return;
+        }
+        const numRequested = managedSubscription.isInfiniteEventRequest
+          ? MAX_EVENT_BATCH_SIZE
+          : eventEmitter.getRequestedEventCount() -
+            eventEmitter.getReceivedEventCount();
+        eventEmitter._resetEventCount(numRequested);
+        this.#openManagedStream(eventEmitter, managedSubscription, numRequested);
+        this.#logger.info(`Resumed managed subscription ${subscriptionName}`);
+        eventEmitter.emit("reconnected", { attempt: 1 });
+      })
+      .catch((error) => {
+        this.#logger.error(
+          `Failed to resume managed subscription ${subscriptionName}: ${error}`
+        );
+        this.#managedSubscriptions.delete(eventEmitter);
+        managedSubscription.autoCommitter?.close();
         eventEmitter.emit("error", error);
+        eventEmitter.emit("end");
       });
-      // @ts-ignore
-      subscription.on("status", (status) => {
-        this.#logger.info(`gRPC stream status: ${JSON.stringify(status)}`);
-        eventEmitter.emit("status", status);
+  }
+
+  /**
+   * Commits a replay ID on a managed subscription.
+   * @param {PubSubEventEmitter} eventEmitter event emitter that was obtained when calling subscribeManaged
+   * @param {number} replayId replay ID of the last processed event
+   * @returns {Promise<number>} Promise that resolves with the committed replay ID once the server confirms the commit.
+   * The promise is rejected with a {@link CommitReplayError} if the commit fails.
+   * @memberof PubSubApiClient.prototype
+   */
+  async commitReplayId(eventEmitter: PubSubEventEmitter, replayId: number) {
+    const subscriptionName = eventEmitter.getTopicName();
+    const managedSubscription = this.#managedSubscriptions.get(eventEmitter);
+    const stream = managedSubscription?.stream;
+    if (!managedSubscription || !stream) {
+      throw new Error(
+        `Failed to commit replay ID for ${subscriptionName}, no active managed subscription found.`
+      );
+    }
+    const commitRequestId = crypto.randomUUID();
+    return new Promise<number>((resolve, reject) => {
+      managedSubscription.pendingCommits.set(commitRequestId, {
+        replayId,
+        resolve,
+        reject,
       });
-      return eventEmitter;
+      stream.write(
+        ManagedFetchRequest.fromPartial({
+          commitReplayIdRequest: {
+            commitRequestId,
+            replayId: encodeReplayId(replayId),
+          },
+        })
+      );
+      this.#logger.debug(
+        `Sent commit request ${commitRequestId} for replay ID ${replayId} on ${subscriptionName}`
+      );
+    });
+  }
+
+  /**
+   * Settles the pending commit request that matches a commit response.
+   * The server may compress several commit requests into a single response that reflects the last request of the batch
+   * so we also settle all the requests that were sent before the matching one.
+   * @param {ManagedSubscription} managedSubscription managed subscription that received the response
+   * @param {CommitReplayResponse} commitResponse commit response
+   */
+  #processCommitResponse(
+    managedSubscription: ManagedSubscription,
+    commitResponse: CommitReplayResponse
+  ) {
+    const { commitRequestId } = commitResponse;
+    const { pendingCommits } = managedSubscription;
+    const pendingCommit = pendingCommits.get(commitRequestId);
+    if (!pendingCommit) {
+      this.#logger.warn(
+        `Received commit response for unknown commit request ${commitRequestId}`
+      );
+      return;
+    }
+
+    // Collect the matching request and the requests that were compressed with it (map preserves insertion order)
+    const settledCommits: [string, PendingCommit][] = [];
+    for (const entry of pendingCommits.entries()) {
+      settledCommits.push(entry);
+      if (entry[0] === commitRequestId) {
+        break;
+      }
+    }
+    settledCommits.forEach(([id]) => pendingCommits.delete(id));
+
+    if (commitResponse.error) {
+      const commitError = new CommitReplayError(
+        `Failed to commit replay ID ${pendingCommit.replayId}: ${commitResponse.error.msg}`,
+        commitResponse.error.code,
+        commitRequestId,
+        pendingCommit.replayId
+      );
+      this.#logger.error(commitError);
+      settledCommits.forEach(([, { reject }]) => reject(commitError));
+    } else {
+      const replayId =
+        commitResponse.replayId.length > 0
+          ? decodeReplayId(commitResponse.replayId)
+          : pendingCommit.replayId;
+      this.#logger.debug(
+        `Committed replay ID ${replayId} (${settledCommits.length} commit requests)`
+      );
+      settledCommits.forEach(([, { resolve }]) => resolve(replayId));
+    }
+  }
+
+  /**
+   * Rejects all pending commit requests of a managed subscription.
+   * @param {ManagedSubscription} managedSubscription managed subscription
+   * @param {Error} error cause of the rejection
+   */
+  #rejectPendingCommits(managedSubscription: ManagedSubscription, error: Error) {
+    for (const pendingCommit of managedSubscription.pendingCommits.values()) {
+      pendingCommit.reject(error);
+    }
+    managedSubscription.pendingCommits.clear();
+  }
+
+  /**
+   * Publishes a payload to a topic using the gRPC client.
+   * @param {string} topicName name of the topic that we're publishing on
+   * @param {Object} payload payload of the event that is being published
+   * @param {string} [correlationKey] optional correlation key. If you don't provide one, we'll generate a random UUID for you.
+   * @returns {Promise<PublishResult>} Promise holding the result of the publication
+   * @memberof PubSubApiClient.prototype
+   */
+  // @ts-ignore
+  async publish<T = any>(topicName, payload: T, correlationKey) {
+    try {
+      this.#logger.debug(`Preparing to publish event on ${topicName}`);
+      // Check client connection
+      if (!this.#client) {
+        throw new Error("Pub/Sub API client is not connected.");
+      }
+
+      // Load topic schema and encode payload
+      const schema = await this.#getEventSchemaForPublishing(topicName);
+      const avroPayload = wrapUnionValues(schema.type, payload);
+      this.#getPayloadValidator(topicName, schema, "publish")?.(avroPayload);
+      const id = correlationKey ? correlationKey : crypto.randomUUID();
+      const publishRequest = PublishRequest.fromPartial({
+        topicName,
+        events: [
+          {
+            id,
+            schemaId: schema.id,
+            payload: schema.type.toBuffer(avroPayload),
+          },
+        ],
+      });
+
+      // Publish event
+      const response = await this.#callWithAuthRefresh(
+        () =>
+          new Promise((resolve, reject) => {
+            if (!this.#client) {
+              reject(new Error("Pub/Sub API client is not connected."));
+              return;
+            }
+            this.#client.publish(publishRequest, (publishError, res) => {
+              if (publishError) {
+                reject(publishError);
+              } else {
+                resolve(res);
+              }
+            });
+          })
+      );
+      // @ts-ignore
+      const result = response.results[0];
+      this.#logger.debug(`Publish response for ${topicName}: ${JSON.stringify(result)}`);
+      return parsePublishResult(result);
     } catch (error) {
       // @ts-ignore
-      throw new Error(`Failed to subscribe to events for topic ${topicName}`, {
+      throw new Error(`Failed to publish event for topic ${topicName}`, {
         cause: error,
       });
     }
   }
 
+  /**
+   * Creates a publisher that keeps a PublishStream open on a topic and publishes events in batches.
+   * Several batches can be in flight at once which allows for much higher publish rates than {@link publish}.
+   * The server closes streams that receive no events for 70 seconds. With a `keepalivePayload`, the publisher publishes a keepalive event
+   * when no publish request was sent for `keepaliveIntervalMs` (60 seconds by default). Otherwise, it opens a new stream on the next publication.
+   * If the stream closes with a retryable status, events awaiting their publish result are sent once more on a new stream
+   * with the same correlation key, so consumers may receive them twice. Events that fail again are rejected and must be retried by the caller.
+   * @param {string} topicName name of the topic that we're publishing on
+   * @param {PublisherOptions} [options] optional batching and keepalive options
+   * @returns {PubSubPublisher} publisher that queues events and resolves each publication with a {@link PublishResult}
+   * @memberof PubSubApiClient.prototype
+   */
+  createPublisher<T = any>(topicName: string, options?: PublisherOptions<T>): PubSubPublisher<T> {
+    // Check client connection
+    if (!this.#client) {
+      throw new Error("Pub/Sub API client is not connected.");
+    }
+    const publisher = new PubSubPublisher(
+      topicName,
+      () => {
+        if (!this.#client) {
+          throw new Error("Pub/Sub API client is not connected.");
+        }
+        const stream = this.#client.publishStream();
+        // Refresh the access token so that the publisher's next stream is authenticated
+        stream.on("error", (error) => {
+          if (this.#isRefreshableAuthError(error)) {
+            this.#refreshAuth().catch((refreshError) =>
+              this.#logger.error(refreshError)
+            );
+          }
+        });
+        return stream;
+      },
+      async () => {
+        const schema = await this.#getEventSchemaForPublishing(topicName);
+        return {
+          ...schema,
+          validate: this.#getPayloadValidator(topicName, schema, "publish"),
+        };
+      },
+      this.#logger,
+      options
+    );
+    this.#publishers.add(publisher);
+    return publisher;
+  }
+
+  /**
+   * Emits a 'schemachange' event with the previous and new schemas of a subscription and their differences.
+   * Schema changes are only reported, so failing to load the previous schema doesn't prevent the event from being processed.
+   * @param {PubSubEventEmitter} eventEmitter event emitter of the subscription
+   * @param {string} previousSchemaId ID of the schema of the previous events
+   * @param {Schema} schema new schema
+   */
+  async #emitSchemaChange(
+    eventEmitter: PubSubEventEmitter,
+    previousSchemaId: string,
+    schema: Schema
+  ) {
+    const topicName = eventEmitter.getTopicName();
+    try {
+      const previousSchema = await this.#getEventSchemaFromId(previousSchemaId);
+      const schemaChange: SchemaChangeEvent = {
+        topicName,
+        previousSchema,
+        schema,
+        diff: diffSchemas(previousSchema.type, schema.type),
+      };
+      this.#logger.warn(
+        `Schema of ${topicName} changed from ${previousSchemaId} to ${schema.id}: ${schemaChange.diff.added.length} added, ${schemaChange.diff.removed.length} removed and ${schemaChange.diff.retyped.length} retyped fields`
+      );
+      eventEmitter.emit("schemachange", schemaChange);
+    } catch (error) {
+      this.#logger.warn(
+        `Failed to report schema change of ${topicName} from ${previousSchemaId} to ${schema.id}`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Parses the events of a fetch response and emits them with the subscription's event emitter.
+   * Requests additional events or emits a 'lastevent' event when reaching the last requested event.
+   * @param {PubSubEventEmitter} eventEmitter event emitter of the subscription
+   * @param {Object} data fetch response received from the gRPC stream
+   * @param {Object} options
+   * @param {boolean} options.isInfiniteEventRequest whether the client keeps the subscription alive forever
+   * @param {boolean} [options.awaitListeners] whether to wait for the promises returned by the 'data' listeners
+   * @param {Function} [options.onEventProcessed] called with the replay ID of each event, in order, once its listeners are done.
+   * Unless awaitListeners is set, events are emitted without waiting for their listeners so the call can happen after this method returns.
+   * @param {FlowController} [options.flowController] optional flow controller that requests events based on outstanding work.
+   * Flow-controlled events are reported to the flow controller instead of onEventProcessed.
+   */
+  async #processFetchResponse(
+    eventEmitter: PubSubEventEmitter,
+    // @ts-ignore
+    data,
+    {
+      isInfiniteEventRequest,
+      awaitListeners = false,
+      onEventProcessed,
+      flowController,
+    }: {
+      isInfiniteEventRequest: boolean;
+      awaitListeners?: boolean;
+      onEventProcessed?: (replayId: number) => void;
+      flowController?: FlowController;
+    }
+  ) {
+    const latestReplayId = decodeReplayId(data.latestReplayId);
+    if (data.events.length > 0) {
+      this.#logger.info(
+        `Received ${data.events.length} events, latest replay ID: ${latestReplayId}`
+      );
+      for (const event of data.events) {
+        let parsedEvent;
+        let onEventDone;
+        if (flowController) {
+          let eventReplayId;
+          try {
+            eventReplayId = decodeReplayId(event.replayId);
+            // eslint-disable-next-line no-empty, no-unused-vars
+          } catch (error) {}
+          onEventDone = flowController.onEventReceived(eventReplayId);
+        }
+        try {
+          // Load event schema from cache or from the gRPC client
+          const schema = await this.#getEventSchemaFromId(
+            event.event.schemaId
+          );
+          const previousSchemaId = eventEmitter._trackSchemaId(schema.id);
+          if (previousSchemaId) {
+            await this.#emitSchemaChange(eventEmitter, previousSchemaId, schema);
+          }
+          // Parse event thanks to schema
+          //console.log("Step-1", schema);
+          //console.log("Step-2", event);
+          parsedEvent = parseEvent(
+            schema,
+            event,
+            console,
+            this.#getPayloadValidator(eventEmitter.getTopicName(), schema, "subscribe")
+          );
+          this.#logger.debug(parsedEvent);
+          if (flowController && onEventDone) {
+            this.#emitFlowControlledEvent(
+              eventEmitter,
+              parsedEvent,
+              onEventDone,
+              flowController.isManualAck()
+            );
+          } else if (!awaitListeners) {
+            const { replayId } = parsedEvent;
+            const listenersDone = eventEmitter
+              .emitAndWait("data", parsedEvent)
+              .catch((error) =>
+                this.#reportListenerError(eventEmitter, replayId, error)
+              );
+            // Events are processed once their listeners and the listeners of the previous events are done
+            eventEmitter
+              ._trackListeners(listenersDone)
+              .then(() => onEventProcessed?.(replayId));
+          }
+        } catch (error) {
+          // Report event parsing error with replay ID if possible
+          let replayId;
+          try {
+            replayId = decodeReplayId(event.replayId);
+            // eslint-disable-next-line no-empty, no-unused-vars
+          } catch (error) {}
+          const message = replayId
+            ? `Failed to parse event with replay ID ${replayId}`
+            : `Failed to parse event with unknown replay ID (latest replay ID was ${latestReplayId})`;
+          const parseError = new EventParseError(
+            message,
+            error as Error,
+            replayId,
+            event,
+            latestReplayId
+          );
+          eventEmitter.emit("error", parseError);
+          this.#logger.error(parseError);
+          // Failed events don't hold up flow control
+          onEventDone?.();
+        }
+
+        // Wait for listeners to process the event
+        if (awaitListeners && parsedEvent) {
+          try {
+            await eventEmitter.emitAndWait("data", parsedEvent);
+            onEventProcessed?.(parsedEvent.replayId);
+          } catch (error) {
+            this.#reportListenerError(eventEmitter, parsedEvent.replayId, error);
+          }
+        }
+
+        // Handle last requested event (flow-controlled subscriptions request events by themselves)
+        if (
+          !flowController &&
+          eventEmitter.getReceivedEventCount() ===
+          eventEmitter.getRequestedEventCount()
+        ) {
+          if (isInfiniteEventRequest) {
+            // Request additional events
+            // The subscription may have been closed while processing events
+            this.requestAdditionalEvents(
+              eventEmitter,
+              MAX_EVENT_BATCH_SIZE
+            ).catch((error) => this.#logger.warn(error.message));
+          } else {
+            // Emit a 'lastevent' event when reaching the last requested event count
+            // @ts-ignore
+            eventEmitter.emit("lastevent");
+          }
+        }
+      }
+    } else {
+      // If there are no events then, every 270 seconds (or less) the server publishes a keepalive message with
+      // the latestReplayId and pendingNumRequested (the number of events that the client is still waiting for)
+      this.#logger.debug(
+        `Received keepalive message. Latest replay ID: ${latestReplayId}`
+      );
+      data.latestReplayId = latestReplayId; // Replace original value with decoded value
+      eventEmitter.emit("keepalive", data);
+    }
+  }
+
+  /**
+   * Emits a flow-controlled event without waiting for its listeners.
+   * The event is done once the promises returned by its listeners settle or, with manual acknowledgement, once its ack function is called.
+   * @param {PubSubEventEmitter} eventEmitter event emitter of the subscription
+   * @param {Object} parsedEvent parsed event
+   * @param {Function} onEventDone reports the event as processed to the flow controller
+   * @param {boolean} isManualAck whether the event is acknowledged with an explicit ack call
+   */
+  #emitFlowControlledEvent(
+    eventEmitter: PubSubEventEmitter,
+    // @ts-ignore
+    parsedEvent,
+    onEventDone: () => void,
+    isManualAck: boolean
+  ) {
+    if (isManualAck) {
+      // Non-enumerable so that the ack function doesn't show up when the event is serialized
+      Object.defineProperty(parsedEvent, "ack", { value: onEventDone });
+      eventEmitter.emit("data", parsedEvent);
+    } else {
+      eventEmitter
+        .emitAndWait("data", parsedEvent)
+        .catch((error) =>
+          this.#reportListenerError(eventEmitter, parsedEvent.replayId, error)
+        )
+        .finally(onEventDone);
+    }
+  }
+
+  /**
+   * Reports an error thrown by a 'data' listener with the subscription's event emitter.
+   * @param {PubSubEventEmitter} eventEmitter event emitter of the subscription
+   * @param {number} replayId replay ID of the event that the listener failed to process
+   * @param {unknown} error error thrown by the listener
+   */
+  #reportListenerError(
+    eventEmitter: PubSubEventEmitter,
+    replayId: number,
+    error: unknown
+  ) {
+    const listenerError = new Error(
+      `Failed to process event with replay ID ${replayId}`,
+      // @ts-ignore
+      { cause: error }
+    );
+    eventEmitter.emit("error", listenerError);
+    this.#logger.error(listenerError);
+  }
+
+  /**
+   * Checks the number of requested events supplied when subscribing.
+   * @param {string} subscriptionName name of the topic or managed subscription
+   * @param {number | null} [numRequested] number of events requested. If not supplied or null, the client keeps the subscription alive forever.
+   * @returns {number} number of events to request in the first fetch request
+   */
+  // @ts-ignore
+  #checkNumRequested(subscriptionName, numRequested) {
+    if (numRequested === null || numRequested === undefined) {
+      return MAX_EVENT_BATCH_SIZE;
+    }
+    if (typeof numRequested !== "number") {
+      throw new Error(
+        `Expected a number type for number of requested events but got ${typeof numRequested}`
+      );
+    }
+    if (!Number.isSafeInteger(numRequested) || numRequested < 1) {
+      throw new Error(
+        `Expected an integer greater than 1 for number of requested events but got ${numRequested}`
+      );
+    }
+    if (numRequested > MAX_EVENT_BATCH_SIZE) {
+      this.#logger.warn(
+        `The number of requested events for ${subscriptionName} exceeds max event batch size (${MAX_EVENT_BATCH_SIZE}).`
+      );
+    }
+    return numRequested;
+  }
+
   /**
    * Request additional events on an existing subscription.
    * @param {PubSubEventEmitter} eventEmitter event emitter that was obtained in the first subscribe call
@@ -437,9 +2095,36 @@ export default class PubSubApiClient {
   async requestAdditionalEvents(eventEmitter, numRequested) {
     const topicName = eventEmitter.getTopicName();
 
+    // Request additional events on managed subscription
+    const managedSubscription = this.#managedSubscriptions.get(eventEmitter);
+    if (managedSubscription) {
+      if (!managedSubscription.stream) {
+        throw new Error(
+          `Failed to request additional events for managed subscription ${topicName}, the subscription is reconnecting.`
+        );
+      }
+      if (managedSubscription.isDraining) {
+        throw new Error(
+          `Failed to request additional events for managed subscription ${topicName}, the subscription is being closed.`
+        );
+      }
+      eventEmitter._resetEventCount(numRequested);
+      managedSubscription.stream.write(
+        ManagedFetchRequest.fromPartial({
+          numRequested,
+          authRefresh: this.#getAuthRefresh(managedSubscription),
+        })
+      );
+      this.#logger.debug(
+        `Requesting a batch of ${numRequested} events for managed subscription: ${topicName}`
+      );
+      return;
+    }
+
     // Retrieve existing subscription
-    const subscription = this.#subscriptions.get(topicName);
-    if (!subscription) {
+    const state = this.#subscriptions.get(eventEmitter);
+    const subscription = state?.stream;
+    if (!state || !subscription) {
       throw new Error(
         `Failed to request additional events for topic ${topicName}, no active subscription found.`
       );
@@ -447,28 +2132,46 @@ export default class PubSubApiClient {
 
     // Request additional events
     eventEmitter._resetEventCount(numRequested);
-    subscription.write({
-      topicName,
-      numRequested: numRequested,
-    });
+    subscription.write(
+      FetchRequest.fromPartial({
+        numRequested: numRequested,
+        authRefresh: this.#getAuthRefresh(state),
+      })
+    );
     this.#logger.debug(
       `Resubscribing to a batch of ${numRequested} events for: ${topicName}`
     );
   }
 
+  /**
+   * Retrieves an event schema based on its ID.
+   * Concurrent calls for the same schema, such as the events of a batch with a new schema, share a single lookup.
+   * @param {string} schemaId ID of the schema that we're fetching
+   * @returns {Promise<Schema>} Promise holding parsed event schema
+   */
+  #getEventSchemaFromId(schemaId: string): Promise<Schema> {
+    let schemaLookup = this.#schemaLookups.get(schemaId);
+    if (!schemaLookup) {
+      schemaLookup = this.#loadEventSchemaFromId(schemaId).finally(() =>
+        this.#schemaLookups.delete(schemaId)
+      );
+      this.#schemaLookups.set(schemaId, schemaLookup);
+    }
+    return schemaLookup;
+  }
+
   /**
    * Retrieves an event schema from the cache based on its ID.
    * If it's not cached, fetches the shema with the gRPC client.
    * @param {string} schemaId ID of the schema that we're fetching
    * @returns {Promise<Schema>} Promise holding parsed event schema
    */
-  // @ts-ignore
-  async #getEventSchemaFromId(schemaId) {
-    let schema = this.#schemaChache.getFromId(schemaId);
+  async #loadEventSchemaFromId(schemaId: string): Promise<Schema> {
+    let schema = await this.#schemaChache.getFromId(schemaId);
     if (!schema) {
       try {
         schema = await this.#fetchEventSchemaFromIdWithClient(schemaId);
-        this.#schemaChache.set(schema);
+        await this.#schemaChache.set(schema);
       } catch (error) {
         // @ts-ignore
         throw new Error(`Failed to load schema with ID ${schemaId}`, {
@@ -480,29 +2183,175 @@ export default class PubSubApiClient {
   }
 
   /**
-   * Requests the event schema from an ID using the gRPC client
-   * @param {string} schemaId schema ID that we're fetching
+   * Retrieves the current event schema of a topic that we're about to publish on.
+   * The topic is looked up with the gRPC client and the schema is loaded from the cache when possible.
+   * @param {string} topicName name of the topic that we're fetching
    * @returns {Promise<Schema>} Promise holding parsed event schema
    */
+  async #getEventSchemaForPublishing(topicName: string): Promise<Schema> {
+    const topicInfo = await this.getTopic(topicName);
+    if (!topicInfo.canPublish) {
+      throw new Error(
+        `Missing permission to publish on topic ${topicName}. Check the permissions of the integration user.`
+      );
+    }
+    return this.#getEventSchemaFromId(topicInfo.schemaId);
+  }
+
+  /**
+   * Returns a function that validates the payloads of a topic, if payload validation is enabled for the given direction.
+   * Validation schemas are built once per topic and schema.
+   * @param {string} topicName name of the topic
+   * @param {Schema} schema event schema of the payloads
+   * @param {string} direction "subscribe" for received payloads or "publish" for published payloads
+   * @returns {Function | undefined} payload validation that throws a PayloadValidationError or undefined if validation is disabled
+   */
+  #getPayloadValidator(
+    topicName: string,
+    schema: Schema,
+    direction: "subscribe" | "publish"
+  ) {
+    if (!this.#payloadValidation || this.#payloadValidation[direction] === false) {
+      return undefined;
+    }
+    const key = `${topicName}|${schema.id}`;
+    let payloadSchema = this.#payloadSchemas.get(key);
+    if (!payloadSchema) {
+      payloadSchema = createPayloadSchema(
+        schema.type,
+        this.#payloadValidation.constraints?.[topicName]
+      );
+      this.#payloadSchemas.set(key, payloadSchema);
+    }
+    const validationSchema = payloadSchema;
+    return (payload: unknown) => validatePayload(validationSchema, topicName, payload);
+  }
+
+  /**
+   * Requests the topic information using the gRPC client
+   * @param {string} topicName name of the topic that we're fetching
+   * @returns {Promise<TopicInfo>} Promise holding the topic information
+   */
   // @ts-ignore
-  async #fetchEventSchemaFromIdWithClient(schemaId) {
-    return new Promise((resolve, reject) => {
-      // @ts-ignore
-      this.#client.getSchema({ schemaId }, (schemaError, res) => {
-        if (schemaError) {
-          reject(schemaError);
-        } else {
-          //console.log("fetchEventSchemaFromIdWithClient:", res.schemaJson);
-          const schemaType = avro.parse(res.schemaJson, {
-            registry: { long: CustomLongAvroType },
+  async #fetchTopicInfoWithClient(topicName): Promise<TopicInfo> {
+    return this.#callWithAuthRefresh(
+      () =>
+        new Promise<TopicInfo>((resolve, reject) => {
+          if (!this.#client) {
+            reject(new Error("Pub/Sub API client is not connected."));
+            return;
+          }
+          this.#client.getTopic({ topicName }, (topicError, res) => {
+            if (topicError) {
+              reject(topicError);
+            } else {
+              resolve(res);
+            }
           });
-          resolve({
-            id: schemaId,
-            type: schemaType,
+        })
+    );
+  }
+
+  /**
+   * Requests the event schema from an ID using the gRPC client
+   * @param {string} schemaId schema ID that we're fetching
+   * @returns {Promise<Schema>} Promise holding parsed event schema
+   */
+  async #fetchEventSchemaFromIdWithClient(schemaId: string): Promise<Schema> {
+    return this.#callWithAuthRefresh(
+      () =>
+        new Promise<Schema>((resolve, reject) => {
+          if (!this.#client) {
+            reject(new Error("Pub/Sub API client is not connected."));
+            return;
+          }
+          this.#client.getSchema({ schemaId }, (schemaError, res) => {
+            if (schemaError) {
+              reject(schemaError);
+            } else {
+              //console.log("fetchEventSchemaFromIdWithClient:", res.schemaJson);
+              resolve({
+                id: schemaId,
+                type: parseAvroSchema(res.schemaJson) as Schema["type"],
+                json: res.schemaJson,
+              });
+            }
           });
-        }
-      });
-    });
+        })
+    );
+  }
+
+  /**
+   * Unsubscribes from a topic or a managed subscription by closing its gRPC stream.
+   * Other subscriptions that share the client are left untouched.
+   * When draining, no more events are requested and the events that were already received are processed before the stream is closed.
+   * @param {PubSubEventEmitter} eventEmitter event emitter that was obtained when subscribing
+   * @param {UnsubscribeOptions} [options] unsubscribe options
+   * @returns {Promise<number | null>} Promise that resolves with the replay ID of the last processed event or null if no event was processed
+   * @memberof PubSubApiClient.prototype
+   */
+  async unsubscribe(
+    eventEmitter: PubSubEventEmitter,
+    options: UnsubscribeOptions = {}
+  ) {
+    const { drain = true } = options;
+    const topicName = eventEmitter.getTopicName();
+
+    // Close managed subscription
+    const managedSubscription = this.#managedSubscriptions.get(eventEmitter);
+    if (managedSubscription) {
+      if (drain) {
+        // The stream stays open until the replay ID of the last processed event is committed
+        managedSubscription.isDraining = true;
+        await managedSubscription.processing;
+        await eventEmitter._waitForListeners();
+        await managedSubscription.autoCommitter?.flush();
+      }
+      this.#managedSubscriptions.delete(eventEmitter);
+      managedSubscription.autoCommitter?.close();
+      managedSubscription.stream?.end();
+      this.#logger.info(
+        `Closed managed subscription ${topicName}. Last processed replay ID: ${managedSubscription.processedReplayId}`
+      );
+      return managedSubscription.processedReplayId;
+    }
+
+    const state = this.#subscriptions.get(eventEmitter);
+    if (!state) {
+      throw new Error(
+        `Failed to unsubscribe from topic ${topicName}, no active subscription found.`
+      );
+    }
+    // Remove the subscription first so that it doesn't request more events or reconnect
+    this.#subscriptions.delete(eventEmitter);
+    state.flowController?.stop();
+    state.stream?.cancel();
+    if (drain) {
+      await state.processing;
+      await eventEmitter._waitForListeners();
+      await state.flowController?.waitForIdle();
+    }
+    this.#logger.info(
+      `Unsubscribed ${eventEmitter.getSubscriptionId()} from ${topicName}. Last processed replay ID: ${state.processedReplayId}`
+    );
+    return state.processedReplayId;
+  }
+
+  /**
+   * Cancels the gRPC stream of a subscription without reconnecting it.
+   * @param {PubSubEventEmitter} eventEmitter event emitter of the subscription
+   */
+  #closeSubscription(eventEmitter: PubSubEventEmitter) {
+    const state = this.#subscriptions.get(eventEmitter);
+    if (state) {
+      // Remove the subscription first so that it isn't reconnected
+      this.#subscriptions.delete(eventEmitter);
+      state.flowController?.stop();
+      state.stream?.cancel();
+      this.#logger.info(
+        `Closed subscription ${eventEmitter.getSubscriptionId()} to ${state.topicName}`
+      );
+    }
   }
 
   /**
@@ -514,15 +2363,26 @@ export default class PubSubApiClient {
     if (this.#client) {
       try {
         // Close all active subscriptions
-        for (const [topicName, subscription] of this.#subscriptions.entries()) {
-          subscription.end();
-          this.#subscriptions.delete(topicName);
+        for (const eventEmitter of [...this.#subscriptions.keys()]) {
+          this.#closeSubscription(eventEmitter);
+        }
+        for (const [eventEmitter, managedSubscription] of this.#managedSubscriptions.entries()) {
+          this.#managedSubscriptions.delete(eventEmitter);
+          managedSubscription.autoCommitter?.close();
+          managedSubscription.stream?.cancel();
         }
         this.#logger.info("All subscriptions have been closed.");
 
+        // Flush and close all publishers
+        await Promise.allSettled(
+          [...this.#publishers].map((publisher) => publisher.close())
+        );
+        this.#publishers.clear();
+
         // Close the gRPC client
         this.#client.close();
         this.#client = null;
+        await this.#proxy?.close();
         this.#logger.info("Disconnected from Pub/Sub API.");
       } catch (error) {
         throw new EventParseError("Failed to disconnect from Pub/Sub API", error as Error);
@@ -532,3 +2392,4 @@ export default class PubSubApiClient {
     }
   }
 }
+
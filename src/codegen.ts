@@ -0,0 +1,68 @@
+import fs from "fs";
+import path from "path";
+import PubSubApiClient from "./client";
+import TypeGenerator from "./utils/typeGenerator";
+
+const DEFAULT_OUTPUT_FILE = path.join(__dirname, "generated", "topicTypes.ts");
+
+const USAGE = `Generates TypeScript interfaces for the event payloads of Pub/Sub API topics.
+
+Usage: npm run codegen -- [--out <file>] <topicName> [<topicName> ...]
+
+Example: npm run codegen -- --out src/generated/topicTypes.ts /event/Sample__e /data/AccountChangeEvent
+
+The client is configured with the same environment variables as the other scripts.`;
+
+/**
+ * Parses the command line arguments
+ * @param {string[]} args command line arguments
+ * @returns {Object} output file and topic names
+ */
+function parseArgs(args: string[]) {
+  let outputFile = DEFAULT_OUTPUT_FILE;
+  const topicNames: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--out") {
+      outputFile = args[++i];
+      if (!outputFile) {
+        throw new Error("Missing file after --out");
+      }
+    } else {
+      topicNames.push(args[i]);
+    }
+  }
+  return { outputFile: path.resolve(outputFile), topicNames };
+}
+
+async function run() {
+  const args = process.argv.slice(2);
+  if (args.length === 0 || args.includes("--help")) {
+    console.log(USAGE);
+    return;
+  }
+  const { outputFile, topicNames } = parseArgs(args);
+  if (topicNames.length === 0) {
+    throw new Error("Expected at least one topic name");
+  }
+
+  const client = new PubSubApiClient();
+  await client.connect();
+  try {
+    const generator = new TypeGenerator();
+    for (const topicName of topicNames) {
+      const topicSchema = await client.getTopicSchema(topicName);
+      const typeName = generator.addTopic(topicSchema);
+      console.log(`${topicName}: ${typeName} (schema ID ${topicSchema.schemaId})`);
+    }
+    fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+    fs.writeFileSync(outputFile, generator.generate(), "utf8");
+    console.log(`Wrote payload types to ${outputFile}`);
+  } finally {
+    await client.disconnect();
+  }
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -1,5 +1,6 @@
 import { EventEmitter } from "events";
 import PubSubApiClient from "./client";
+import FileCheckpointStore from "./utils/fileCheckpointStore";
 import readline from 'readline';
 import fs from 'fs';
 import path from 'path';
@@ -49,7 +50,10 @@ async function run() {
   }
 
   try {
-    const client = new PubSubApiClient();
+    const checkpointStore = new FileCheckpointStore(
+      path.join(__dirname, '..', 'replay-checkpoints.json')
+    );
+    const client = new PubSubApiClient({ checkpointStore });
     await client.connect();
     let eventEmitter: EventEmitter;
 
@@ -62,8 +66,9 @@ async function run() {
     console.log("1. Open stream and subscribe to events starting now");
     console.log("2. Open stream from a specific replayId");
     console.log("3. Only pull in 1st event after a specific replayId - stream will close after 1 event");
+    console.log("4. Resume stream from the last saved checkpoint");
 
-    rl.question('Enter your choice (1, 2, or 3): ', async (answer: string) => {
+    rl.question('Enter your choice (1, 2, 3, or 4): ', async (answer: string) => {
       switch (answer) {
         case '1':
           console.log("You selected option 1: Open stream and subscribe to events starting now");
@@ -89,8 +94,14 @@ async function run() {
             rl.close();
           });
           break;
+        case '4':
+          console.log("You selected option 4: Resume stream from the last saved checkpoint");
+          eventEmitter = await client.subscribeFromCheckpoint(eventType, 'demo');
+          eventEmitter.on("data", (event) => handleEvent(event, logFilePath, answer));
+          rl.close();
+          break;
         default:
-          console.log("Invalid selection. Please enter 1, 2, or 3.");
+          console.log("Invalid selection. Please enter 1, 2, 3, or 4.");
           rl.close();
       }
     });
@@ -0,0 +1,247 @@
+import PubSubApiClient, { ClientConfig, SubscribeOptions } from "./client";
+import SchemaCache from "./utils/schemaCache";
+import { PublisherOptions } from "./utils/pubSubPublisher";
+import { Logger } from "./utils/clientConfiguration";
+
+/**
+ * Org IDs are compared on their case-sensitive 15-character form so that 15 and 18-character IDs match
+ * @param {string} organizationId 15 or 18-character org ID
+ * @returns {string} 15-character org ID
+ */
+function toOrgKey(organizationId: string) {
+  return organizationId.substring(0, 15);
+}
+
+/**
+ * Holds several connected Pub/Sub API clients indexed by org ID and routes calls to the client of an org.
+ * Each org has its own client so reconnects and access token refreshes are handled independently.
+ * Clients share a schema cache: since schemas are cached by ID, orgs only share the schemas whose IDs are identical.
+ * @alias OrgClientRegistry
+ * @global
+ */
+export default class OrgClientRegistry {
+  /**
+   * Map of clients indexed by 15-character org ID
+   * @type {Map<string,PubSubApiClient>}
+   */
+  #clients: Map<string, PubSubApiClient>;
+
+  /**
+   * Schema cache shared by all clients
+   * @type {SchemaCache}
+   */
+  #schemaCache: SchemaCache;
+
+  /**
+   * Configuration applied to all clients unless an org overrides it
+   * @type {ClientConfig}
+   */
+  #defaults: ClientConfig;
+
+  #logger: Logger;
+
+  /**
+   * Builds a new registry
+   * @param {ClientConfig} [defaults] configuration applied to all clients unless an org overrides it (typically the endpoint, logger and reconnect policy)
+   */
+  constructor(defaults: ClientConfig = {}) {
+    this.#clients = new Map();
+    this.#schemaCache = defaults.schemaCache ?? new SchemaCache();
+    this.#defaults = defaults;
+    this.#logger = defaults.logger ?? console;
+  }
+
+  /**
+   * Builds and connects a client for an org.
+   * The org ID is obtained from the credentials of the client.
+   * @param {ClientConfig} config client configuration of the org, merged with the registry defaults
+   * @returns {Promise<string>} Promise holding the ID of the org
+   * @memberof OrgClientRegistry.prototype
+   */
+  async addOrg(config: ClientConfig) {
+    const client = new PubSubApiClient({
+      ...this.#defaults,
+      ...config,
+      schemaCache: this.#schemaCache,
+    });
+    await client.connect();
+    const organizationId = client.getOrganizationId();
+    if (!organizationId) {
+      await client.disconnect();
+      throw new Error(
+        "Failed to add org: the credentials of the client don't include an org ID."
+      );
+    }
+    const orgKey = toOrgKey(organizationId);
+    if (this.#clients.has(orgKey)) {
+      await client.disconnect();
+      throw new Error(`Failed to add org ${organizationId}: org is already registered.`);
+    }
+    this.#clients.set(orgKey, client);
+    this.#logger.info(`Added org ${organizationId} to the registry`);
+    return organizationId;
+  }
+
+  /**
+   * Disconnects the client of an org and removes it from the registry.
+   * @param {string} organizationId 15 or 18-character org ID
+   * @returns {Promise<void>} Promise that resolves once the client is disconnected
+   * @memberof OrgClientRegistry.prototype
+   */
+  async removeOrg(organizationId: string) {
+    const client = this.getClient(organizationId);
+    this.#clients.delete(toOrgKey(organizationId));
+    await client.disconnect();
+    this.#logger.info(`Removed org ${organizationId} from the registry`);
+  }
+
+  /**
+   * Returns the client of an org.
+   * @param {string} organizationId 15 or 18-character org ID
+   * @returns {PubSubApiClient} the client of the org
+   * @memberof OrgClientRegistry.prototype
+   */
+  getClient(organizationId: string) {
+    const client = this.#clients.get(toOrgKey(organizationId));
+    if (!client) {
+      throw new Error(`No client registered for org ${organizationId}.`);
+    }
+    return client;
+  }
+
+  /**
+   * Returns the IDs of the registered orgs.
+   * @returns {string[]} org IDs as supplied by the credentials of the clients
+   * @memberof OrgClientRegistry.prototype
+   */
+  getOrganizationIds() {
+    return [...this.#clients.values()].map(
+      (client) => client.getOrganizationId() as string
+    );
+  }
+
+  /**
+   * Subscribes to a topic of an org.
+   * @param {string} organizationId 15 or 18-character org ID
+   * @param {string} topicName name of the topic that we're subscribing to
+   * @param {number | null} [numRequested] optional number of events requested. If not supplied or null, the client keeps the subscription alive forever.
+   * @param {SubscribeOptions} [options] optional subscription options
+   * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events
+   * @memberof OrgClientRegistry.prototype
+   */
+  async subscribe<T = any>(
+    organizationId: string,
+    topicName: string,
+    numRequested: number | null = null,
+    options?: SubscribeOptions
+  ) {
+    return this.getClient(organizationId).subscribe<T>(
+      topicName,
+      numRequested,
+      options
+    );
+  }
+
+  /**
+   * Subscribes to a topic of an org and retrieves all past events in retention window.
+   * @param {string} organizationId 15 or 18-character org ID
+   * @param {string} topicName name of the topic that we're subscribing to
+   * @param {number | null} [numRequested] optional number of events requested. If not supplied or null, the client keeps the subscription alive forever.
+   * @param {SubscribeOptions} [options] optional subscription options
+   * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events
+   * @memberof OrgClientRegistry.prototype
+   */
+  async subscribeFromEarliestEvent<T = any>(
+    organizationId: string,
+    topicName: string,
+    numRequested: number | null = null,
+    options?: SubscribeOptions
+  ) {
+    return this.getClient(organizationId).subscribeFromEarliestEvent<T>(
+      topicName,
+      numRequested,
+      options
+    );
+  }
+
+  /**
+   * Subscribes to a topic of an org and retrieves past events starting from a replay ID.
+   * @param {string} organizationId 15 or 18-character org ID
+   * @param {string} topicName name of the topic that we're subscribing to
+   * @param {number | null} numRequested number of events requested. If null, the client keeps the subscription alive forever.
+   * @param {number} replayId replay ID
+   * @param {SubscribeOptions} [options] optional subscription options
+   * @returns {Promise<PubSubEventEmitter>} Promise that holds an emitter that allows you to listen to received events and stream lifecycle events
+   * @memberof OrgClientRegistry.prototype
+   */
+  async subscribeFromReplayId<T = any>(
+    organizationId: string,
+    topicName: string,
+    numRequested: number | null,
+    replayId: number,
+    options?: SubscribeOptions
+  ) {
+    return this.getClient(organizationId).subscribeFromReplayId<T>(
+      topicName,
+      numRequested,
+      replayId,
+      options
+    );
+  }
+
+  /**
+   * Publishes an event on a topic of an org.
+   * @param {string} organizationId 15 or 18-character org ID
+   * @param {string} topicName name of the topic that we're publishing on
+   * @param {Object} payload event payload
+   * @param {string} [correlationKey] optional correlation key. If you don't provide one, we'll generate a random UUID for you.
+   * @returns {Promise<PublishResult>} Promise holding a PublishResult object with replayId and correlationKey
+   * @memberof OrgClientRegistry.prototype
+   */
+  async publish<T = any>(
+    organizationId: string,
+    topicName: string,
+    payload: T,
+    correlationKey?: string
+  ) {
+    return this.getClient(organizationId).publish<T>(
+      topicName,
+      payload,
+      correlationKey
+    );
+  }
+
+  /**
+   * Creates a publisher on a topic of an org.
+   * @param {string} organizationId 15 or 18-character org ID
+   * @param {string} topicName name of the topic that we're publishing on
+   * @param {PublisherOptions} [options] optional batching and keepalive options
+   * @returns {PubSubPublisher} publisher that queues events and resolves each publication with a {@link PublishResult}
+   * @memberof OrgClientRegistry.prototype
+   */
+  createPublisher<T = any>(
+    organizationId: string,
+    topicName: string,
+    options?: PublisherOptions<T>
+  ) {
+    return this.getClient(organizationId).createPublisher<T>(topicName, options);
+  }
+
+  /**
+   * Disconnects the clients of all orgs.
+   * @returns {Promise<void>} Promise that resolves once all clients are disconnected
+   * @memberof OrgClientRegistry.prototype
+   */
+  async disconnect() {
+    const clients = [...this.#clients.values()];
+    this.#clients.clear();
+    const results = await Promise.allSettled(
+      clients.map((client) => client.disconnect())
+    );
+    results
+      .filter((result) => result.status === "rejected")
+      .forEach((result) =>
+        this.#logger.error((result as PromiseRejectedResult).reason)
+      );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Type declarations for the subset of avro-js used by the client.
+ * avro-js doesn't ship its own declarations.
+ */
+declare module 'avro-js' {
+    namespace avro {
+        /**
+         * Field of a record type
+         */
+        interface Field {
+            getName(): string;
+            getType(): Type;
+            getDefault(): unknown;
+        }
+
+        /**
+         * Options of {@link parse}
+         */
+        interface ParseOptions {
+            registry?: Record<string, Type>;
+        }
+
+        /**
+         * Base class of all Avro types
+         */
+        abstract class Type {
+            /**
+             * Returns the full name of named types, undefined for other types.
+             */
+            getName(): string | undefined;
+            /**
+             * Returns the canonical JSON definition of the type.
+             */
+            getSchema(): string;
+            /**
+             * Returns true if the value can be encoded with the type.
+             */
+            isValid(value: unknown): boolean;
+            toBuffer(value: unknown): Buffer;
+            fromBuffer(buffer: Buffer): any;
+        }
+
+        namespace types {
+            class NullType extends Type {}
+            class BooleanType extends Type {}
+            class IntType extends Type {}
+            class FloatType extends Type {}
+            class DoubleType extends Type {}
+            class BytesType extends Type {}
+            class StringType extends Type {}
+            class RecordType extends Type {
+                getFields(): Field[];
+            }
+            class UnionType extends Type {
+                getTypes(): Type[];
+            }
+            class ArrayType extends Type {
+                getItemsType(): Type;
+            }
+            class MapType extends Type {
+                getValuesType(): Type;
+            }
+            class EnumType extends Type {
+                /**
+                 * Returns the symbols of the enum. avro-js rejects enums without symbols.
+                 */
+                getSymbols(): [string, ...string[]];
+            }
+            class FixedType extends Type {
+                getSize(): number;
+            }
+            class LongType extends Type {
+                static using(
+                    methods: {
+                        fromBuffer(buffer: Buffer): number | bigint;
+                        toBuffer(value: number | bigint): Buffer;
+                        fromJSON(value: any): number | bigint;
+                        toJSON(value: any): number;
+                        isValid(value: unknown): boolean;
+                        compare(value1: any, value2: any): number;
+                    },
+                    noUnpack?: boolean
+                ): LongType;
+            }
+        }
+
+        function parse(schema: string | object, options?: ParseOptions): Type;
+    }
+
+    export = avro;
+}
@@ -2,79 +2,192 @@ import crypto from 'crypto';
 import jsforce from 'jsforce';
 import { fetch } from 'undici';
 import Configuration from './configuration';
+import { AuthProvider, ConnectionMetadata } from './authProvider';
+import TokenCache, { TokenCacheOptions } from './tokenCache';
+import {
+    AuthConfig,
+    Logger,
+    loadAuthConfigFromEnv
+} from './clientConfiguration';
+import SfCliAuthStore from './sfCliAuthStore';
+import HttpProxy from './httpProxy';
 
 /**
- * @typedef {Object} ConnectionMetadata
- * @property {string} accessToken
- * @property {string} instanceUrl
- * @property {string} [organizationId] Optional organization ID. Can be omitted when working with user-supplied authentication.
- * @property {string} [username] Optional username. Omitted when working with user-supplied authentication.
+ * Client ID of the connected app that the Salesforce CLI uses by default
  */
+const SF_CLI_CLIENT_ID = 'PlatformCLI';
+
+/**
+ * Base class for auth providers that run an auth flow and cache the credentials until they're invalidated.
+ * Concurrent calls share the same authentication.
+ * @alias CachedAuthProvider
+ * @global
+ */
+export abstract class CachedAuthProvider implements AuthProvider {
+    #credentials: Promise<ConnectionMetadata> | null = null;
 
-export default class SalesforceAuth {
     /**
-     * Authenticates with the auth mode specified in configuration
-     * @returns {ConnectionMetadata}
+     * Returns the cached credentials or runs the auth flow if there are none.
+     * @returns {Promise<ConnectionMetadata>} Promise holding the connection metadata
      */
-    static async authenticate() {
-        if (Configuration.isUsernamePasswordAuth()) {
-            return SalesforceAuth.#authWithUsernamePassword();
-        } else if (Configuration.isOAuthClientCredentialsAuth()) {
-            return SalesforceAuth.#authWithOAuthClientCredentials();
-        } else if (Configuration.isOAuthJwtBearerAuth()) {
-            return SalesforceAuth.#authWithJwtBearer();
-        } else {
-            throw new Error('Unsupported authentication mode.');
+    getCredentials() {
+        if (!this.#credentials) {
+            const credentials = this.authenticate();
+            this.#credentials = credentials;
+            // Don't cache failures so that the next call tries again
+            credentials.catch(() => {
+                if (this.#credentials === credentials) {
+                    this.#credentials = null;
+                }
+            });
         }
+        return this.#credentials;
     }
 
     /**
-     * Authenticates with the username/password flow
-     * @returns {ConnectionMetadata}
+     * Discards the cached credentials.
      */
-    static async #authWithUsernamePassword() {
+    invalidate() {
+        this.#credentials = null;
+    }
+
+    /**
+     * Runs the auth flow.
+     * @returns {Promise<ConnectionMetadata>} Promise holding the connection metadata
+     * @protected
+     */
+    protected abstract authenticate(): Promise<ConnectionMetadata>;
+}
+
+/**
+ * Authenticates with the username/password flow
+ * @alias UsernamePasswordAuthProvider
+ * @global
+ */
+export class UsernamePasswordAuthProvider extends CachedAuthProvider {
+    #loginUrl: string;
+    #username: string;
+    #password: string;
+    #proxy?: HttpProxy;
+
+    /**
+     * @param {Object} options
+     * @param {string} options.loginUrl Salesforce login URL
+     * @param {string} options.username Salesforce username
+     * @param {string} options.password Salesforce password, followed by the security token if required
+     * @param {HttpProxy} [options.proxy] optional HTTP proxy
+     */
+    constructor(options: {
+        loginUrl: string;
+        username: string;
+        password: string;
+        proxy?: HttpProxy;
+    }) {
+        super();
+        this.#loginUrl = options.loginUrl;
+        this.#username = options.username;
+        this.#password = options.password;
+        this.#proxy = options.proxy;
+    }
+
+    protected async authenticate() {
         const sfConnection = new jsforce.Connection({
-            loginUrl: Configuration.getSfLoginUrl()
+            loginUrl: this.#loginUrl,
+            httpProxy: this.#proxy?.getJsforceProxyUrl(this.#loginUrl)
         });
-        await sfConnection.login(
-            // @ts-ignore
-            Configuration.getSfUsername(),
-            Configuration.getSfSecuredPassword()
-        );
+        await sfConnection.login(this.#username, this.#password);
         return {
-            accessToken: sfConnection.accessToken,
+            accessToken: sfConnection.accessToken as string,
             instanceUrl: sfConnection.instanceUrl,
             // @ts-ignore
             organizationId: sfConnection.userInfo.organizationId,
-            username: Configuration.getSfUsername()
+            username: this.#username
         };
     }
+}
+
+/**
+ * Authenticates with the OAuth 2.0 client credentials flow
+ * @alias ClientCredentialsAuthProvider
+ * @global
+ */
+export class ClientCredentialsAuthProvider extends CachedAuthProvider {
+    #loginUrl: string;
+    #clientId: string;
+    #clientSecret: string;
+    #proxy?: HttpProxy;
 
     /**
-     * Authenticates with the OAuth 2.0 client credentials flow
-     * @returns {ConnectionMetadata}
+     * @param {Object} options
+     * @param {string} options.loginUrl Salesforce login URL
+     * @param {string} options.clientId connected app client ID
+     * @param {string} options.clientSecret connected app client secret
+     * @param {HttpProxy} [options.proxy] optional HTTP proxy
      */
-    static async #authWithOAuthClientCredentials() {
+    constructor(options: {
+        loginUrl: string;
+        clientId: string;
+        clientSecret: string;
+        proxy?: HttpProxy;
+    }) {
+        super();
+        this.#loginUrl = options.loginUrl;
+        this.#clientId = options.clientId;
+        this.#clientSecret = options.clientSecret;
+        this.#proxy = options.proxy;
+    }
+
+    protected async authenticate() {
         const params = new URLSearchParams();
         params.append('grant_type', 'client_credentials');
-        // @ts-ignore
-        params.append('client_id', Configuration.getSfClientId());
-        // @ts-ignore
-        params.append('client_secret', Configuration.getSfClientSecret());
-        return SalesforceAuth.#authWithOAuth(params.toString());
+        params.append('client_id', this.#clientId);
+        params.append('client_secret', this.#clientSecret);
+        return authWithOAuth(this.#loginUrl, params.toString(), this.#proxy);
     }
+}
+
+/**
+ * Authenticates with the OAuth 2.0 JWT bearer flow
+ * @alias JwtBearerAuthProvider
+ * @global
+ */
+export class JwtBearerAuthProvider extends CachedAuthProvider {
+    #loginUrl: string;
+    #clientId: string;
+    #username: string;
+    #privateKey: string;
+    #proxy?: HttpProxy;
 
     /**
-     * Authenticates with the OAuth 2.0 JWT bearer flow
-     * @returns {ConnectionMetadata}
+     * @param {Object} options
+     * @param {string} options.loginUrl Salesforce login URL
+     * @param {string} options.clientId connected app client ID
+     * @param {string} options.username Salesforce username
+     * @param {string} options.privateKey PEM private key used to sign the JWT
+     * @param {HttpProxy} [options.proxy] optional HTTP proxy
      */
-    static async #authWithJwtBearer() {
+    constructor(options: {
+        loginUrl: string;
+        clientId: string;
+        username: string;
+        privateKey: string;
+        proxy?: HttpProxy;
+    }) {
+        super();
+        this.#loginUrl = options.loginUrl;
+        this.#clientId = options.clientId;
+        this.#username = options.username;
+        this.#privateKey = options.privateKey;
+        this.#proxy = options.proxy;
+    }
+
+    protected async authenticate() {
         // Prepare token
         const header = JSON.stringify({ alg: 'RS256' });
         const claims = JSON.stringify({
-            iss: Configuration.getSfClientId(),
-            sub: Configuration.getSfUsername(),
-            aud: Configuration.getSfLoginUrl(),
+            iss: this.#clientId,
+            sub: this.#username,
+            aud: this.#loginUrl,
             exp: Math.floor(Date.now() / 1000) + 60 * 5
         });
         let token = `${base64url(header)}.${base64url(claims)}`;
@@ -82,64 +195,404 @@ export default class SalesforceAuth {
         const sign = crypto.createSign('RSA-SHA256');
         sign.update(token);
         sign.end();
-        token += `.${base64url(sign.sign(Configuration.getSfPrivateKey()))}`;
+        token += `.${base64url(sign.sign(this.#privateKey))}`;
         // Log in
         const body = `grant_type=urn:ietf:params:oauth:grant-type:jwt-bearer&assertion=${token}`;
-        return SalesforceAuth.#authWithOAuth(body);
+        return authWithOAuth(this.#loginUrl, body, this.#proxy);
     }
+}
+
+/**
+ * Exchanges a stored refresh token for access tokens with the OAuth 2.0 refresh token flow
+ * @alias RefreshTokenAuthProvider
+ * @global
+ */
+export class RefreshTokenAuthProvider extends CachedAuthProvider {
+    #loginUrl: string;
+    #clientId: string;
+    #clientSecret?: string;
+    #refreshToken: string;
+    #proxy?: HttpProxy;
 
     /**
-     * Generic OAuth 2.0 connect method
-     * @param {string} body URL encoded body
-     * @returns {ConnectionMetadata} connection metadata
+     * @param {Object} options
+     * @param {string} options.loginUrl Salesforce login URL
+     * @param {string} options.clientId connected app client ID
+     * @param {string} [options.clientSecret] connected app client secret, if the connected app requires it
+     * @param {string} options.refreshToken refresh token issued to the connected app
+     * @param {HttpProxy} [options.proxy] optional HTTP proxy
      */
-    // @ts-ignore
-    static async #authWithOAuth(body) {
-        // Log in
-        const loginResponse = await fetch(
-            `${Configuration.getSfLoginUrl()}/services/oauth2/token`,
-            {
-                method: 'post',
-                headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded'
-                },
-                body
+    constructor(options: {
+        loginUrl: string;
+        clientId: string;
+        clientSecret?: string;
+        refreshToken: string;
+        proxy?: HttpProxy;
+    }) {
+        super();
+        this.#loginUrl = options.loginUrl;
+        this.#clientId = options.clientId;
+        this.#clientSecret = options.clientSecret;
+        this.#refreshToken = options.refreshToken;
+        this.#proxy = options.proxy;
+    }
+
+    protected async authenticate() {
+        const params = new URLSearchParams();
+        params.append('grant_type', 'refresh_token');
+        params.append('client_id', this.#clientId);
+        if (this.#clientSecret) {
+            params.append('client_secret', this.#clientSecret);
+        }
+        params.append('refresh_token', this.#refreshToken);
+        return authWithOAuth(this.#loginUrl, params.toString(), this.#proxy);
+    }
+}
+
+/**
+ * Reuses the org authorization of the `sf`/`sfdx` CLI.
+ * The access token, instance URL and org ID are read from the CLI auth store like user-supplied credentials.
+ * When the access token is rejected, the provider reads the auth store again in case the CLI renewed the token
+ * and otherwise exchanges the stored refresh token for a new access token.
+ * @alias SfCliAuthProvider
+ * @global
+ */
+export class SfCliAuthProvider extends CachedAuthProvider {
+    #usernameOrAlias: string;
+    #authStore: SfCliAuthStore;
+    #rejectedAccessToken: string | null;
+    #lastAccessToken: string | null;
+    #proxy?: HttpProxy;
+
+    /**
+     * @param {Object} options
+     * @param {string} options.usernameOrAlias username or alias of the org in the CLI
+     * @param {SfCliAuthStore} [options.authStore] CLI auth store (defaults to the store in the home directory)
+     * @param {HttpProxy} [options.proxy] optional HTTP proxy for the refresh token exchange
+     */
+    constructor(options: {
+        usernameOrAlias: string;
+        authStore?: SfCliAuthStore;
+        proxy?: HttpProxy;
+    }) {
+        super();
+        this.#usernameOrAlias = options.usernameOrAlias;
+        this.#authStore = options.authStore ?? new SfCliAuthStore();
+        this.#proxy = options.proxy;
+        this.#rejectedAccessToken = null;
+        this.#lastAccessToken = null;
+    }
+
+    invalidate() {
+        super.invalidate();
+        this.#rejectedAccessToken = this.#lastAccessToken;
+    }
+
+    protected async authenticate() {
+        const authInfo = await this.#authStore.getAuthInfo(this.#usernameOrAlias);
+        let credentials: ConnectionMetadata = {
+            accessToken: authInfo.accessToken,
+            instanceUrl: authInfo.instanceUrl,
+            organizationId: authInfo.orgId,
+            username: authInfo.username
+        };
+        if (authInfo.accessToken === this.#rejectedAccessToken) {
+            if (!authInfo.refreshToken) {
+                throw new Error(
+                    `Access token of ${this.#usernameOrAlias} expired. Log in again with the Salesforce CLI.`
+                );
             }
-        );
-        if (loginResponse.status !== 200) {
-            throw new Error(
-                `Authentication error: HTTP ${
-                    loginResponse.status
-                } - ${await loginResponse.text()}`
+            credentials = await authWithOAuth(
+                authInfo.loginUrl,
+                new URLSearchParams({
+                    grant_type: 'refresh_token',
+                    client_id: authInfo.clientId ?? SF_CLI_CLIENT_ID,
+                    ...(authInfo.clientSecret
+                        ? { client_secret: authInfo.clientSecret }
+                        : {}),
+                    refresh_token: authInfo.refreshToken
+                }).toString(),
+                this.#proxy
             );
         }
-        // @ts-ignore
-        const { access_token, instance_url } = await loginResponse.json();
-        // Get org and user info
-        const userInfoResponse = await fetch(
-            `${Configuration.getSfLoginUrl()}/services/oauth2/userinfo`,
-            {
-                headers: { authorization: `Bearer ${access_token}` }
+        this.#lastAccessToken = credentials.accessToken;
+        return credentials;
+    }
+}
+
+/**
+ * Reuses the credentials stored in a {@link TokenCache} before falling back to another auth provider.
+ * Credentials obtained from the other provider are stored in the cache.
+ * @alias TokenCacheAuthProvider
+ * @global
+ */
+export class TokenCacheAuthProvider implements AuthProvider {
+    #provider: AuthProvider;
+    #tokenCache: TokenCache;
+    #cacheKey: string;
+    #credentials: Promise<ConnectionMetadata> | null;
+    #isCacheStale: boolean;
+    #logger: Logger;
+
+    /**
+     * @param {AuthProvider} provider provider that supplies credentials when the cache has none
+     * @param {TokenCache} tokenCache token cache
+     * @param {string} cacheKey key that identifies the credentials in the cache
+     * @param {Logger} [logger] logger for cache failures, defaults to the console
+     */
+    constructor(
+        provider: AuthProvider,
+        tokenCache: TokenCache,
+        cacheKey: string,
+        logger: Logger = console
+    ) {
+        this.#provider = provider;
+        this.#tokenCache = tokenCache;
+        this.#cacheKey = cacheKey;
+        this.#credentials = null;
+        this.#isCacheStale = false;
+        this.#logger = logger;
+    }
+
+    getCredentials() {
+        if (!this.#credentials) {
+            const credentials = this.#loadCredentials();
+            this.#credentials = credentials;
+            credentials.catch(() => {
+                if (this.#credentials === credentials) {
+                    this.#credentials = null;
+                }
+            });
+        }
+        return this.#credentials;
+    }
+
+    invalidate() {
+        this.#credentials = null;
+        // Evict the rejected credentials so that they aren't reused, even if obtaining new ones fails
+        this.#isCacheStale = true;
+        this.#tokenCache
+            .delete(this.#cacheKey)
+            .catch((error) =>
+                this.#logger.warn('Failed to evict rejected credentials from the token cache', error)
+            );
+        this.#provider.invalidate();
+    }
+
+    /**
+     * Loads credentials from the cache or from the other provider.
+     * The cache is only an optimization so its failures are logged but don't prevent authentication.
+     * @returns {Promise<ConnectionMetadata>} Promise holding the connection metadata
+     */
+    async #loadCredentials() {
+        if (!this.#isCacheStale) {
+            const cachedCredentials = await this.#tokenCache
+                .load(this.#cacheKey)
+                .catch((error) => {
+                    this.#logger.warn('Failed to load credentials from the token cache', error);
+                    return null;
+                });
+            if (cachedCredentials) {
+                return cachedCredentials;
             }
-        );
-        if (userInfoResponse.status !== 200) {
+        }
+        const credentials = await this.#provider.getCredentials();
+        await this.#tokenCache
+            .save(this.#cacheKey, credentials)
+            .catch((error) =>
+                this.#logger.warn('Failed to save credentials to the token cache', error)
+            );
+        this.#isCacheStale = false;
+        return credentials;
+    }
+}
+
+/**
+ * Supplies an access token obtained outside of the client.
+ * The token can't be renewed: once it's invalidated, the provider fails to supply credentials.
+ * @alias UserSuppliedAuthProvider
+ * @global
+ */
+export class UserSuppliedAuthProvider implements AuthProvider {
+    #credentials: ConnectionMetadata;
+    #isInvalidated: boolean;
+
+    /**
+     * @param {ConnectionMetadata} credentials user-supplied connection metadata
+     */
+    constructor(credentials: ConnectionMetadata) {
+        this.#credentials = credentials;
+        this.#isInvalidated = false;
+    }
+
+    async getCredentials() {
+        if (this.#isInvalidated) {
             throw new Error(
-                `Failed to retrieve user info: HTTP ${
-                    userInfoResponse.status
-                } - ${await userInfoResponse.text()}`
+                "Access token expired and can't be refreshed with user-supplied authentication."
             );
         }
-        // @ts-ignore
-        const { organization_id, preferred_username } =
-            await userInfoResponse.json();
-        return {
-            accessToken: access_token,
-            instanceUrl: instance_url,
-            organizationId: organization_id,
-            username: preferred_username
-        };
+        return this.#credentials;
+    }
+
+    invalidate() {
+        this.#isInvalidated = true;
+    }
+}
+
+export default class SalesforceAuth {
+    /**
+     * Builds an auth provider for an auth configuration
+     * @param {AuthConfig} auth auth configuration
+     * @param {TokenCacheOptions} [tokenCacheOptions] optional token cache that is shared by process restarts
+     * @param {HttpProxy} [proxy] optional HTTP proxy for the auth calls
+     * @param {Logger} [logger] optional logger for token cache failures
+     * @returns {AuthProvider | null} auth provider or null with user-supplied authentication
+     */
+    static createProvider(
+        auth: AuthConfig,
+        tokenCacheOptions?: TokenCacheOptions,
+        proxy?: HttpProxy,
+        logger?: Logger
+    ): AuthProvider | null {
+        const provider = SalesforceAuth.#createFlowProvider(auth, proxy);
+        if (!provider || !tokenCacheOptions) {
+            return provider;
+        }
+        // Credentials are cached per auth mode and identity
+        const cacheKey = [
+            auth.type,
+            'loginUrl' in auth ? auth.loginUrl : '',
+            'clientId' in auth ? auth.clientId : '',
+            'username' in auth ? auth.username : '',
+            'targetOrg' in auth ? auth.targetOrg : ''
+        ].join('|');
+        return new TokenCacheAuthProvider(
+            provider,
+            new TokenCache(tokenCacheOptions, logger),
+            cacheKey,
+            logger
+        );
+    }
+
+    /**
+     * Builds an auth provider for the auth mode specified in environment variables
+     * @returns {AuthProvider}
+     */
+    static fromConfiguration(): AuthProvider {
+        const provider = SalesforceAuth.createProvider(
+            loadAuthConfigFromEnv(),
+            Configuration.getTokenCacheFile()
+                ? {
+                      filePath: Configuration.getTokenCacheFile() as string,
+                      secret: Configuration.getTokenCacheSecret() as string
+                  }
+                : undefined,
+            Configuration.getProxyUrl()
+                ? new HttpProxy({
+                      url: Configuration.getProxyUrl() as string,
+                      username: Configuration.getProxyUsername(),
+                      password: Configuration.getProxyPassword(),
+                      noProxy: Configuration.getNoProxy()?.split(',')
+                  })
+                : undefined
+        );
+        if (!provider) {
+            throw new Error('Unsupported authentication mode.');
+        }
+        return provider;
+    }
+
+    /**
+     * Builds an auth provider for an auth flow
+     * @param {AuthConfig} auth auth configuration
+     * @param {HttpProxy} [proxy] optional HTTP proxy for the auth calls
+     * @returns {AuthProvider | null} auth provider or null with user-supplied authentication
+     */
+    static #createFlowProvider(
+        auth: AuthConfig,
+        proxy?: HttpProxy
+    ): AuthProvider | null {
+        switch (auth.type) {
+            case 'username-password':
+                return new UsernamePasswordAuthProvider({ ...auth, proxy });
+            case 'oauth-client-credentials':
+                return new ClientCredentialsAuthProvider({ ...auth, proxy });
+            case 'oauth-jwt-bearer':
+                return new JwtBearerAuthProvider({ ...auth, proxy });
+            case 'oauth-refresh-token':
+                return new RefreshTokenAuthProvider({ ...auth, proxy });
+            case 'sf-cli':
+                return new SfCliAuthProvider({
+                    usernameOrAlias: auth.targetOrg,
+                    proxy
+                });
+            case 'user-supplied':
+                return null;
+        }
+    }
+
+    /**
+     * Authenticates with the auth mode specified in configuration
+     * @returns {ConnectionMetadata}
+     */
+    static async authenticate() {
+        return SalesforceAuth.fromConfiguration().getCredentials();
     }
 }
+
+/**
+ * Generic OAuth 2.0 connect method
+ * @param {string} loginUrl Salesforce login URL
+ * @param {string} body URL encoded body
+ * @param {HttpProxy} [proxy] optional HTTP proxy
+ * @returns {ConnectionMetadata} connection metadata
+ */
+async function authWithOAuth(loginUrl: string, body: string, proxy?: HttpProxy) {
+    const dispatcher = proxy?.getDispatcher(loginUrl);
+    // Log in
+    const loginResponse = await fetch(`${loginUrl}/services/oauth2/token`, {
+        method: 'post',
+        dispatcher,
+        headers: {
+            'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        body
+    });
+    if (loginResponse.status !== 200) {
+        throw new Error(
+            `Authentication error: HTTP ${
+                loginResponse.status
+            } - ${await loginResponse.text()}`
+        );
+    }
+    // @ts-ignore
+    const { access_token, instance_url } = await loginResponse.json();
+    // Get org and user info
+    const userInfoResponse = await fetch(
+        `${loginUrl}/services/oauth2/userinfo`,
+        {
+            headers: { authorization: `Bearer ${access_token}` },
+            dispatcher
+        }
+    );
+    if (userInfoResponse.status !== 200) {
+        throw new Error(
+            `Failed to retrieve user info: HTTP ${
+                userInfoResponse.status
+            } - ${await userInfoResponse.text()}`
+        );
+    }
+    // @ts-ignore
+    const { organization_id, preferred_username } =
+        await userInfoResponse.json();
+    return {
+        accessToken: access_token,
+        instanceUrl: instance_url,
+        organizationId: organization_id,
+        username: preferred_username
+    } as ConnectionMetadata;
+}
+
 // @ts-ignore
 function base64url(input) {
     const buf = Buffer.from(input, 'utf8');
@@ -0,0 +1,48 @@
+/**
+ * Metadata of a Salesforce connection.
+ * @alias ConnectionMetadata
+ * @global
+ */
+export interface ConnectionMetadata {
+    /**
+     * Salesforce access token
+     * @type {string}
+     */
+    accessToken: string;
+    /**
+     * Salesforce instance URL
+     * @type {string}
+     */
+    instanceUrl: string;
+    /**
+     * Organization ID. Can be omitted when working with user-supplied authentication.
+     * @type {string | undefined}
+     */
+    organizationId?: string;
+    /**
+     * Username. Omitted when working with user-supplied authentication.
+     * @type {string | undefined}
+     */
+    username?: string;
+}
+
+/**
+ * Supplies the credentials that the client sends with every Pub/Sub API call.
+ * Implement this interface to plug in your own source of access tokens.
+ * @alias AuthProvider
+ * @global
+ */
+export interface AuthProvider {
+    /**
+     * Returns the current credentials.
+     * The client calls this whenever it needs call metadata so implementations should cache credentials until they're invalidated.
+     * @returns {Promise<ConnectionMetadata>} Promise holding the connection metadata
+     */
+    getCredentials(): Promise<ConnectionMetadata>;
+
+    /**
+     * Discards the current credentials because the Pub/Sub API rejected them.
+     * The next call to getCredentials should obtain new credentials.
+     */
+    invalidate(): void;
+}
@@ -0,0 +1,175 @@
+/**
+ * Automatic replay ID commit policy for managed subscriptions.
+ * - `count`: commits the replay ID of the last processed event every `count` events.
+ * - `interval`: commits the replay ID of the last processed event every `intervalMs` milliseconds.
+ * - `handler`: waits for the promises returned by the 'data' listeners and commits after each successfully handled event.
+ * @alias CommitPolicy
+ * @global
+ */
+export type CommitPolicy =
+    | { strategy: 'count'; count: number }
+    | { strategy: 'interval'; intervalMs: number }
+    | { strategy: 'handler' };
+
+/**
+ * Commits replay IDs on behalf of a managed subscription according to a {@link CommitPolicy}.
+ * The latest replay ID of keepalive messages is also committed so that idle subscriptions
+ * do not fall out of the retention window.
+ * @protected
+ */
+export default class AutoCommitter {
+    #policy: CommitPolicy;
+    #commit: (replayId: number) => Promise<number>;
+    #onError: (error: Error) => void;
+    // @ts-ignore
+    #logger;
+
+    #latestProcessedReplayId: number | null;
+    #lastCommittedReplayId: number | null;
+    #uncommittedEventCount: number;
+    #intervalTimer: NodeJS.Timeout | null;
+    #pendingCommit: Promise<void>;
+    #isClosed: boolean;
+
+    /**
+     * Builds a new auto committer
+     * @param {CommitPolicy} policy commit policy
+     * @param {Function} commit commits a replay ID and resolves once the server confirms the commit
+     * @param {Function} onError reports commit errors
+     * @param {Logger} logger
+     */
+    constructor(
+        policy: CommitPolicy,
+        commit: (replayId: number) => Promise<number>,
+        onError: (error: Error) => void,
+        // @ts-ignore
+        logger
+    ) {
+        if (
+            policy.strategy === 'count' &&
+            (!Number.isSafeInteger(policy.count) || policy.count < 1)
+        ) {
+            throw new Error(
+                `Expected an integer greater than 0 for commit count but got ${policy.count}`
+            );
+        }
+        if (
+            policy.strategy === 'interval' &&
+            (typeof policy.intervalMs !== 'number' || policy.intervalMs <= 0)
+        ) {
+            throw new Error(
+                `Expected a positive commit interval but got ${policy.intervalMs}`
+            );
+        }
+        this.#policy = policy;
+        this.#commit = commit;
+        this.#onError = onError;
+        this.#logger = logger;
+        this.#latestProcessedReplayId = null;
+        this.#lastCommittedReplayId = null;
+        this.#uncommittedEventCount = 0;
+        this.#intervalTimer = null;
+        this.#pendingCommit = Promise.resolve();
+        this.#isClosed = false;
+        if (policy.strategy === 'interval') {
+            this.#intervalTimer = setInterval(() => {
+                if (this.#latestProcessedReplayId !== null) {
+                    this.#commitReplayId(this.#latestProcessedReplayId);
+                }
+            }, policy.intervalMs);
+        }
+    }
+
+    /**
+     * Whether the subscription should wait for the promises returned by the 'data' listeners.
+     * @returns {boolean}
+     */
+    isAwaitingListeners() {
+        return this.#policy.strategy === 'handler';
+    }
+
+    /**
+     * Records that an event was processed and commits its replay ID when the policy requires it.
+     * @param {number} replayId replay ID of the processed event
+     */
+    onEventProcessed(replayId: number) {
+        this.#latestProcessedReplayId = replayId;
+        this.#uncommittedEventCount++;
+        if (this.#policy.strategy === 'handler') {
+            this.#commitReplayId(replayId);
+        } else if (
+            this.#policy.strategy === 'count' &&
+            this.#uncommittedEventCount >= this.#policy.count
+        ) {
+            this.#commitReplayId(replayId);
+        }
+    }
+
+    /**
+     * Commits the latest replay ID received in a keepalive message.
+     * Call it once the listeners of the events received before the keepalive are done,
+     * otherwise the commit skips events that are still being processed.
+     * @param {number} latestReplayId latest replay ID of the subscription
+     */
+    onKeepalive(latestReplayId: number) {
+        this.#latestProcessedReplayId = latestReplayId;
+        this.#commitReplayId(latestReplayId);
+    }
+
+    /**
+     * Commits the replay ID of the last processed event unless it was already committed.
+     * @returns {Promise<void>} Promise that resolves once the last commit is confirmed or has failed
+     */
+    async flush() {
+        if (
+            this.#latestProcessedReplayId !== null &&
+            this.#latestProcessedReplayId !== this.#lastCommittedReplayId
+        ) {
+            this.#commitReplayId(this.#latestProcessedReplayId);
+        }
+        await this.#pendingCommit;
+    }
+
+    /**
+     * Stops committing replay IDs.
+     * Commits that are still pending when the subscription closes fail without being reported.
+     */
+    close() {
+        this.#isClosed = true;
+        if (this.#intervalTimer) {
+            clearInterval(this.#intervalTimer);
+            this.#intervalTimer = null;
+        }
+    }
+
+    /**
+     * Commits a replay ID unless it was already committed.
+     * @param {number} replayId replay ID to commit
+     */
+    #commitReplayId(replayId: number) {
+        if (this.#isClosed || replayId === this.#lastCommittedReplayId) {
+            return;
+        }
+        this.#lastCommittedReplayId = replayId;
+        this.#uncommittedEventCount = 0;
+        this.#pendingCommit = this.#commit(replayId)
+            .then((committedReplayId) =>
+                this.#logger.debug(
+                    `Auto-committed replay ID ${committedReplayId}`
+                )
+            )
+            .catch((error) => {
+                if (this.#isClosed) {
+                    this.#logger.debug(
+                        `Auto-commit of replay ID ${replayId} failed after closing: ${error.message}`
+                    );
+                    return;
+                }
+                // Retry with the next commit
+                if (this.#lastCommittedReplayId === replayId) {
+                    this.#lastCommittedReplayId = null;
+                }
+                this.#onError(error);
+            });
+    }
+}
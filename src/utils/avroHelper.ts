@@ -34,3 +34,102 @@ export const CustomLongAvroType = avro.types.LongType.using({
         return n1 === n2 ? 0 : n1 < n2 ? -1 : 1;
     }
 });
+
+/**
+ * Parses the JSON of an Avro schema, with our custom Long type.
+ * @param {string} schemaJson Avro schema JSON
+ * @returns {Object} Avro type
+ * @private
+ */
+export function parseAvroSchema(schemaJson: string) {
+    return avro.parse(schemaJson, {
+        registry: { long: CustomLongAvroType }
+    });
+}
+
+/**
+ * Returns the name of a union branch, which is the key of union values that use this branch.
+ * @param {Object} type Avro type of the branch
+ * @returns {string} branch name
+ * @private
+ */
+export function getUnionBranchName(type: avro.Type): string {
+    const name = type.getName();
+    if (name) {
+        return name;
+    }
+    const schema = JSON.parse(type.getSchema());
+    return typeof schema === 'string' ? schema : schema.type;
+}
+
+/**
+ * Wraps the union values of a payload in objects keyed by their branch name, as Avro expects them.
+ * This lets you publish the plain values of union fields (e.g. `'Hello'` rather than `{ string: 'Hello' }`).
+ * Values that are already wrapped are kept as is and the first branch that accepts a plain value is used.
+ * Values that don't match any branch are left untouched so that validation or encoding reports them.
+ * @param {Object} type Avro type of the value
+ * @param {any} value plain or wrapped value
+ * @returns {any} value with wrapped union values
+ * @private
+ */
+export function wrapUnionValues(type: avro.Type, value: unknown): unknown {
+    if (type instanceof avro.types.UnionType) {
+        if (value === null || value === undefined) {
+            return value;
+        }
+        const branches = type.getTypes();
+        if (isPlainObject(value)) {
+            const keys = Object.keys(value);
+            const wrappedBranch =
+                keys.length === 1
+                    ? branches.find((branch) => getUnionBranchName(branch) === keys[0])
+                    : undefined;
+            if (wrappedBranch) {
+                return {
+                    [keys[0]]: wrapUnionValues(wrappedBranch, value[keys[0]])
+                };
+            }
+        }
+        for (const branch of branches) {
+            if (branch instanceof avro.types.NullType) {
+                continue;
+            }
+            const branchValue = wrapUnionValues(branch, value);
+            if (branch.isValid(branchValue)) {
+                return { [getUnionBranchName(branch)]: branchValue };
+            }
+        }
+        return value;
+    }
+    if (type instanceof avro.types.RecordType && isPlainObject(value)) {
+        const record = { ...value };
+        for (const field of type.getFields()) {
+            const name = field.getName();
+            if (name in record) {
+                record[name] = wrapUnionValues(field.getType(), record[name]);
+            }
+        }
+        return record;
+    }
+    if (type instanceof avro.types.ArrayType && Array.isArray(value)) {
+        return value.map((item) => wrapUnionValues(type.getItemsType(), item));
+    }
+    if (type instanceof avro.types.MapType && isPlainObject(value)) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+                key,
+                wrapUnionValues(type.getValuesType(), item)
+            ])
+        );
+    }
+    return value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !Buffer.isBuffer(value)
+    );
+}
@@ -0,0 +1,353 @@
+import * as dotenv from 'dotenv';
+import { z } from 'zod';
+import Configuration from './configuration';
+import { AuthProvider } from './authProvider';
+import { ReplayCheckpointStore } from './replayCheckpointStore';
+import SchemaCache from './schemaCache';
+import { isLoopbackEndpoint } from './grpcChannel';
+
+const NonEmptyString = z.string().min(1);
+
+const LoginUrl = z.string().url();
+
+/**
+ * Auth flow configurations, discriminated by the same types as the SALESFORCE_AUTH_TYPE environment variable
+ */
+const AuthConfigSchema = z.discriminatedUnion('type', [
+    z
+        .object({
+            type: z.literal('username-password'),
+            loginUrl: LoginUrl,
+            username: NonEmptyString,
+            password: NonEmptyString
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('oauth-client-credentials'),
+            loginUrl: LoginUrl,
+            clientId: NonEmptyString,
+            clientSecret: NonEmptyString
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('oauth-jwt-bearer'),
+            loginUrl: LoginUrl,
+            clientId: NonEmptyString,
+            username: NonEmptyString,
+            privateKey: NonEmptyString
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('oauth-refresh-token'),
+            loginUrl: LoginUrl,
+            clientId: NonEmptyString,
+            clientSecret: NonEmptyString.optional(),
+            refreshToken: NonEmptyString
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('sf-cli'),
+            targetOrg: NonEmptyString
+        })
+        .strict(),
+    z
+        .object({
+            type: z.literal('user-supplied')
+        })
+        .strict()
+]);
+
+/**
+ * Configuration of a built-in auth flow
+ * @alias AuthConfig
+ * @global
+ */
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
+/**
+ * @typedef {Object} Logger
+ * @property {Function} debug
+ * @property {Function} info
+ * @property {Function} error
+ * @property {Function} warn
+ * @protected
+ */
+export interface Logger {
+    debug: (...args: any[]) => void;
+    info: (...args: any[]) => void;
+    warn: (...args: any[]) => void;
+    error: (...args: any[]) => void;
+}
+
+/**
+ * Checks whether a value is an object that implements some methods
+ * @param {*} value value to check
+ * @param {string[]} methods names of the methods
+ * @returns {boolean} true if all the methods are implemented
+ */
+function hasMethods(value: unknown, methods: string[]) {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        // @ts-ignore
+        methods.every((method) => typeof value[method] === 'function')
+    );
+}
+
+const ClientConfigSchema = z
+    .object({
+        auth: z
+            .unknown()
+            .superRefine((value, ctx) => {
+                if (hasMethods(value, ['getCredentials', 'invalidate'])) {
+                    return;
+                }
+                const result = AuthConfigSchema.safeParse(value);
+                if (!result.success) {
+                    result.error.issues.forEach((issue) => ctx.addIssue(issue));
+                }
+            })
+            .transform((value) => value as AuthConfig | AuthProvider),
+        endpoint: NonEmptyString.regex(
+            /^(\[[0-9a-fA-F:.]+\]|[^\s:[\]]+):\d+$/,
+            'Expected a host:port endpoint'
+        ),
+        logger: z.custom<Logger>(
+            (value) => hasMethods(value, ['debug', 'info', 'warn', 'error']),
+            'Expected a logger with debug, info, warn and error methods'
+        ),
+        tokenCache: z
+            .object({
+                filePath: NonEmptyString,
+                secret: NonEmptyString,
+                maxAgeMs: z.number().positive().optional()
+            })
+            .strict()
+            .optional(),
+        reconnect: z
+            .object({
+                maxAttempts: z.number().int().nonnegative().optional(),
+                initialDelayMs: z.number().nonnegative().optional(),
+                maxDelayMs: z.number().nonnegative().optional(),
+                multiplier: z.number().min(1).optional(),
+                jitter: z.number().min(0).max(1).optional()
+            })
+            .strict()
+            .optional(),
+        checkpointStore: z
+            .custom<ReplayCheckpointStore>(
+                (value) => hasMethods(value, ['load', 'save', 'delete']),
+                'Expected a replay checkpoint store with load, save and delete methods'
+            )
+            .optional(),
+        schemaCache: z.instanceof(SchemaCache).optional(),
+        payloadValidation: z
+            .object({
+                subscribe: z.boolean().optional(),
+                publish: z.boolean().optional(),
+                constraints: z
+                    .record(
+                        z.record(
+                            z
+                                .object({
+                                    required: z.boolean().optional(),
+                                    minLength: z.number().int().nonnegative().optional(),
+                                    maxLength: z.number().int().nonnegative().optional(),
+                                    pattern: z.instanceof(RegExp).optional(),
+                                    values: z.array(z.string()).nonempty().optional()
+                                })
+                                .strict()
+                        )
+                    )
+                    .optional()
+            })
+            .strict()
+            .optional(),
+        channel: z
+            .object({
+                keepaliveTimeMs: z.number().int().positive().optional(),
+                keepaliveTimeoutMs: z.number().int().positive().optional(),
+                maxReceiveMessageLength: z.number().int().positive().optional(),
+                initialReconnectBackoffMs: z.number().int().positive().optional(),
+                caFile: NonEmptyString.optional(),
+                plaintext: z.boolean().optional()
+            })
+            .strict()
+            .optional(),
+        proxy: z
+            .object({
+                url: z
+                    .string()
+                    .url()
+                    .refine(
+                        (url) => url.startsWith('http://'),
+                        'Expected an http:// proxy URL'
+                    ),
+                username: NonEmptyString.optional(),
+                password: z.string().optional(),
+                noProxy: z.array(z.string()).optional()
+            })
+            .strict()
+            .optional()
+    })
+    .strict()
+    .superRefine((config, ctx) => {
+        // Plaintext mode is meant for local stand-ins of the Pub/Sub API and must never send tokens over the network
+        if (config.channel?.plaintext && !isLoopbackEndpoint(config.endpoint)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['channel', 'plaintext'],
+                message: `Plaintext mode is only allowed with loopback endpoints (localhost, 127.0.0.1, [::1]), not with ${config.endpoint}`
+            });
+        }
+        if (config.channel?.plaintext && config.channel.caFile) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ['channel', 'caFile'],
+                message: 'A CA file cannot be used in plaintext mode'
+            });
+        }
+    });
+
+/**
+ * Validated client configuration
+ * @protected
+ */
+export type ResolvedClientConfig = z.infer<typeof ClientConfigSchema>;
+
+/**
+ * Validates a client configuration.
+ * Missing auth, endpoint, token cache and proxy settings are read from environment variables (and from a `.env` file).
+ * @param {Object} config client configuration
+ * @returns {ResolvedClientConfig} validated configuration
+ * @protected
+ */
+export function resolveClientConfig(config: Record<string, unknown>) {
+    const needsEnvironment =
+        config.auth === undefined ||
+        config.endpoint === undefined ||
+        config.tokenCache === undefined ||
+        config.proxy === undefined;
+    if (needsEnvironment) {
+        dotenv.config();
+    }
+    const result = ClientConfigSchema.safeParse({
+        ...config,
+        auth: config.auth ?? readAuthConfigFromEnv(),
+        endpoint: config.endpoint ?? Configuration.getPubSubEndpoint(),
+        logger: config.logger ?? console,
+        tokenCache: config.tokenCache ?? readTokenCacheConfigFromEnv(),
+        proxy: config.proxy ?? readProxyConfigFromEnv()
+    });
+    if (!result.success) {
+        const details = result.error.issues
+            .map((issue) => `- ${issue.path.join('.') || 'config'}: ${issue.message}`)
+            .join('\n');
+        throw new Error(
+            `Invalid Pub/Sub API client configuration. Environment variables are used for missing auth, endpoint, token cache and proxy settings.\n${details}`
+        );
+    }
+    return result.data;
+}
+
+/**
+ * Validates the auth configuration held by environment variables.
+ * @returns {AuthConfig} auth configuration
+ * @protected
+ */
+export function loadAuthConfigFromEnv() {
+    dotenv.config();
+    const result = AuthConfigSchema.safeParse(readAuthConfigFromEnv());
+    if (!result.success) {
+        throw new Error(
+            `Invalid auth configuration in environment variables: ${result.error.issues
+                .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+                .join(', ')}`
+        );
+    }
+    return result.data;
+}
+
+/**
+ * Reads the auth configuration from environment variables
+ * @returns {Object | undefined} raw auth configuration or undefined if no auth type is set
+ */
+function readAuthConfigFromEnv() {
+    const type = Configuration.getAuthType();
+    switch (type) {
+        case undefined:
+            return undefined;
+        case 'username-password':
+            return {
+                type,
+                loginUrl: Configuration.getSfLoginUrl(),
+                username: Configuration.getSfUsername(),
+                password: Configuration.getSfSecuredPassword()
+            };
+        case 'oauth-client-credentials':
+            return {
+                type,
+                loginUrl: Configuration.getSfLoginUrl(),
+                clientId: Configuration.getSfClientId(),
+                clientSecret: Configuration.getSfClientSecret()
+            };
+        case 'oauth-jwt-bearer':
+            return {
+                type,
+                loginUrl: Configuration.getSfLoginUrl(),
+                clientId: Configuration.getSfClientId(),
+                username: Configuration.getSfUsername(),
+                privateKey: process.env.SALESFORCE_PRIVATE_KEY_FILE
+                    ? Configuration.getSfPrivateKey()
+                    : undefined
+            };
+        case 'oauth-refresh-token':
+            return {
+                type,
+                loginUrl: Configuration.getSfLoginUrl(),
+                clientId: Configuration.getSfClientId(),
+                clientSecret: Configuration.getSfClientSecret(),
+                refreshToken: Configuration.getSfRefreshToken()
+            };
+        case 'sf-cli':
+            return {
+                type,
+                targetOrg: Configuration.getSfCliTargetOrg()
+            };
+        default:
+            return { type };
+    }
+}
+
+/**
+ * Reads the token cache configuration from environment variables
+ * @returns {Object | undefined} raw token cache configuration or undefined if no cache file is set
+ */
+function readTokenCacheConfigFromEnv() {
+    const filePath = Configuration.getTokenCacheFile();
+    if (!filePath) {
+        return undefined;
+    }
+    return { filePath, secret: Configuration.getTokenCacheSecret() };
+}
+
+/**
+ * Reads the proxy configuration from environment variables
+ * @returns {Object | undefined} raw proxy configuration or undefined if no proxy URL is set
+ */
+function readProxyConfigFromEnv() {
+    const url = Configuration.getProxyUrl();
+    if (!url) {
+        return undefined;
+    }
+    return {
+        url,
+        username: Configuration.getProxyUsername(),
+        password: Configuration.getProxyPassword(),
+        noProxy: Configuration.getNoProxy()?.split(',')
+    };
+}
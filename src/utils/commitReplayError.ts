@@ -0,0 +1,50 @@
+import { ErrorCode } from '../pubsub_api'
+
+/**
+ * Holds the information related to a failed replay ID commit on a managed subscription.
+ * @alias CommitReplayError
+ * @global
+ */
+export default class CommitReplayError extends Error {
+  /**
+   * The error code returned by the Pub/Sub API.
+   * Unrecoverable commit errors are reported with ErrorCode.COMMIT.
+   * @type {ErrorCode}
+   * @public
+   */
+  public code: ErrorCode
+
+  /**
+   * The ID of the commit request at the origin of the error.
+   * @type {string}
+   * @public
+   */
+  public commitRequestId: string
+
+  /**
+   * The replay ID that we attempted to commit.
+   * @type {number | undefined}
+   * @public
+   */
+  public replayId?: number
+
+  /**
+   * Builds a new CommitReplayError error.
+   * @param {string} message The error message.
+   * @param {ErrorCode} code The error code returned by the Pub/Sub API.
+   * @param {string} commitRequestId The ID of the commit request at the origin of the error.
+   * @param {number} replayId The replay ID that we attempted to commit.
+   * @protected
+   */
+  constructor(
+    message: string,
+    code: ErrorCode,
+    commitRequestId: string,
+    replayId?: number
+  ) {
+    super(message)
+    this.code = code
+    this.commitRequestId = commitRequestId
+    this.replayId = replayId
+  }
+}
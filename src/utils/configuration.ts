@@ -1,48 +1,10 @@
-import * as dotenv from 'dotenv';
 import fs from 'fs';
 
-const AUTH_USER_SUPPLIED = 'user-supplied',
-    AUTH_USERNAME_PASSWORD = 'username-password',
-    AUTH_OAUTH_CLIENT_CREDENTIALS = 'oauth-client-credentials',
-    AUTH_OAUTH_JWT_BEARER = 'oauth-jwt-bearer';
-
+/**
+ * Reads the client settings from environment variables.
+ * Values are loaded from a `.env` file by {@link resolveClientConfig} and validated along with the programmatic configuration.
+ */
 export default class Configuration {
-    static load() {
-        // Load config from .env file
-        dotenv.config();
-        // Check mandatory variables
-        Configuration.#checkMandatoryVariables([
-            'SALESFORCE_AUTH_TYPE',
-            'PUB_SUB_ENDPOINT'
-        ]);
-        // Check variable for specific auth types
-        if (Configuration.isUsernamePasswordAuth()) {
-            Configuration.#checkMandatoryVariables([
-                'SALESFORCE_LOGIN_URL',
-                'SALESFORCE_USERNAME',
-                'SALESFORCE_PASSWORD'
-            ]);
-        } else if (Configuration.isOAuthClientCredentialsAuth()) {
-            Configuration.#checkMandatoryVariables([
-                'SALESFORCE_LOGIN_URL',
-                'SALESFORCE_CLIENT_ID',
-                'SALESFORCE_CLIENT_SECRET'
-            ]);
-        } else if (Configuration.isOAuthJwtBearerAuth()) {
-            Configuration.#checkMandatoryVariables([
-                'SALESFORCE_LOGIN_URL',
-                'SALESFORCE_CLIENT_ID',
-                'SALESFORCE_USERNAME',
-                'SALESFORCE_PRIVATE_KEY_FILE'
-            ]);
-            Configuration.getSfPrivateKey();
-        } else if (!Configuration.isUserSuppliedAuth()) {
-            throw new Error(
-                `Invalid value for SALESFORCE_AUTH_TYPE environment variable: ${Configuration.getAuthType()}`
-            );
-        }
-    }
-
     static getAuthType() {
         return process.env.SALESFORCE_AUTH_TYPE;
     }
@@ -72,6 +34,22 @@ export default class Configuration {
         return process.env.SALESFORCE_CLIENT_SECRET;
     }
 
+    static getSfRefreshToken() {
+        return process.env.SALESFORCE_REFRESH_TOKEN;
+    }
+
+    static getSfCliTargetOrg() {
+        return process.env.SALESFORCE_CLI_TARGET_ORG;
+    }
+
+    static getTokenCacheFile() {
+        return process.env.SALESFORCE_TOKEN_CACHE_FILE;
+    }
+
+    static getTokenCacheSecret() {
+        return process.env.SALESFORCE_TOKEN_CACHE_SECRET;
+    }
+
     static getSfPrivateKey() {
         try {
             const keyPath = process.env.SALESFORCE_PRIVATE_KEY_FILE;
@@ -89,28 +67,19 @@ export default class Configuration {
         return process.env.PUB_SUB_ENDPOINT;
     }
 
-    static isUserSuppliedAuth() {
-        return Configuration.getAuthType() === AUTH_USER_SUPPLIED;
+    static getProxyUrl() {
+        return process.env.PROXY_URL;
     }
 
-    static isUsernamePasswordAuth() {
-        return Configuration.getAuthType() === AUTH_USERNAME_PASSWORD;
+    static getProxyUsername() {
+        return process.env.PROXY_USERNAME;
     }
 
-    static isOAuthClientCredentialsAuth() {
-        return Configuration.getAuthType() === AUTH_OAUTH_CLIENT_CREDENTIALS;
+    static getProxyPassword() {
+        return process.env.PROXY_PASSWORD;
     }
 
-    static isOAuthJwtBearerAuth() {
-        return Configuration.getAuthType() === AUTH_OAUTH_JWT_BEARER;
-    }
-// @ts-ignore
-    static #checkMandatoryVariables(varNames) {
-        // @ts-ignore
-        varNames.forEach((varName) => {
-            if (!process.env[varName]) {
-                throw new Error(`Missing ${varName} environment variable`);
-            }
-        });
+    static getNoProxy() {
+        return process.env.NO_PROXY;
     }
 }
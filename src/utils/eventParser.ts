@@ -2,7 +2,9 @@
 import avro from "avro-js";
 import { z } from 'zod'
 import { ActionLogger } from '@prismatic-io/spectral'
-import { ConsumerEvent } from '../pubsub_api'
+import { ConsumerEvent, PublishResult as RawPublishResult } from '../pubsub_api'
+import type { PublishResult } from '../client'
+import type { Schema } from './schemaCache'
 import EventParseError from './eventParseError'
 
 
@@ -23,32 +25,55 @@ interface AvroField {
 }
 
 // Define the Zod schema for `ParsedPayload`
-const ParsedPayloadSchema = z.object({
-  ChangeEventHeader: z
-    .object({
-      // are we sure that all these fields aren't optional?
-      // if they are optional, and any of them are missing, the parse will fail and parseEvent wont do anything
-      nulledFields: z.array(z.string()),
-      diffFields: z.array(z.string()),
-      changedFields: z.array(z.string()),
-    })
-    .optional(),
-})
-type ParsedPayload = z.infer<typeof ParsedPayloadSchema>
+const ParsedPayloadSchema = z
+  .object({
+    ChangeEventHeader: z
+      .object({
+        nulledFields: z.array(z.string()),
+        diffFields: z.array(z.string()),
+        changedFields: z.array(z.string()),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough()
+
+/**
+ * Payload of a parsed event whose type isn't known: CDC header field bitmaps are lists of field names
+ * @alias ParsedPayload
+ * @global
+ */
+export type ParsedPayload = z.infer<typeof ParsedPayloadSchema>
 
 function isParsedPayload(payload: unknown): payload is ParsedPayload {
   return ParsedPayloadSchema.safeParse(payload).success
 }
 
+/**
+ * Event parsed with its schema
+ * @alias ParsedEvent
+ * @global
+ */
+export interface ParsedEvent<T = ParsedPayload> {
+  replayId: number
+  payload: T
+  /**
+   * Marks the event as processed. Only set on subscriptions with manual acknowledgement flow control.
+   */
+  ack?: () => void
+}
+
 /**
  * Parses the Avro encoded data of an event agains a schema
  * @param {*} schema Avro schema
  * @param {*} event Avro encoded data of the event
+ * @param {*} logger
+ * @param {Function} [validatePayload] optional payload validation, called before unions are unwrapped
  * @returns {*} parsed event data
  * @protected
  */
 // @ts-ignore
-export function parseEvent(schema: AvroSchema, event: ConsumerEvent, logger) {
+export function parseEvent(schema: Schema, event: ConsumerEvent, logger, validatePayload?: (payload: unknown) => void): ParsedEvent {
    if (!event.event) {
     const error = new Error('Event data is missing in the response')
     throw new EventParseError('Failed to process the event due to missing event data', error)
@@ -82,6 +107,7 @@ export function parseEvent(schema: AvroSchema, event: ConsumerEvent, logger) {
       throw new EventParseError('Failed to parse changedFields', error as Error)
     }
   }
+  validatePayload?.(payload)
   // Eliminate intermediate types left by Avro in payload
   flattenSinglePropertyObjects(payload);
   // Return parsed data
@@ -174,6 +200,27 @@ function getFieldNamesFromBitmap(fields: AvroField[], fieldBitmapAsHex: string)
   return fieldNames
 }
 
+/**
+ * Converts a raw publish result from the gRPC client into a PublishResult
+ * @param {*} result raw publish result
+ * @returns {PublishResult} publish result with a decoded replay ID
+ * @protected
+ */
+export function parsePublishResult(result: RawPublishResult): PublishResult {
+  const publishResult: PublishResult = {
+    correlationKey: result.correlationKey,
+  }
+  if (result.error) {
+    publishResult.error = {
+      code: result.error.code,
+      msg: result.error.msg,
+    }
+  } else {
+    publishResult.replayId = decodeReplayId(result.replayId)
+  }
+  return publishResult
+}
+
 // Update decodeReplayId function
 export function decodeReplayId(encodedReplayId: Buffer): number {
   return Number(encodedReplayId.readBigUInt64BE())
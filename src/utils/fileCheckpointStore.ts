@@ -0,0 +1,128 @@
+import fs from 'fs';
+import { ReplayCheckpointStore } from './replayCheckpointStore';
+
+/**
+ * Replay checkpoints indexed by topic name then by subscriber name
+ * @private
+ */
+type Checkpoints = Record<string, Record<string, number>>;
+
+/**
+ * Replay checkpoint store that keeps checkpoints in a JSON file.
+ * Writes are crash-safe: the file is written to a temporary file then renamed over the previous version.
+ * @alias FileCheckpointStore
+ * @global
+ */
+export default class FileCheckpointStore implements ReplayCheckpointStore {
+    #filePath: string;
+    #checkpoints: Promise<Checkpoints> | null;
+    #pendingWrite: Promise<void>;
+    #nextWrite: Promise<void> | null;
+
+    /**
+     * Builds a new file checkpoint store
+     * @param {string} filePath path of the JSON file. The file is created on the first save.
+     */
+    constructor(filePath: string) {
+        this.#filePath = filePath;
+        this.#checkpoints = null;
+        this.#pendingWrite = Promise.resolve();
+        this.#nextWrite = null;
+    }
+
+    async load(topicName: string, subscriberName: string) {
+        const checkpoints = await this.#readCheckpoints();
+        return checkpoints[topicName]?.[subscriberName] ?? null;
+    }
+
+    async save(topicName: string, subscriberName: string, replayId: number) {
+        const checkpoints = await this.#readCheckpoints();
+        checkpoints[topicName] = checkpoints[topicName] ?? {};
+        checkpoints[topicName][subscriberName] = replayId;
+        return this.#writeCheckpoints();
+    }
+
+    async delete(topicName: string, subscriberName: string) {
+        const checkpoints = await this.#readCheckpoints();
+        if (checkpoints[topicName]?.[subscriberName] === undefined) {
+            return;
+        }
+        delete checkpoints[topicName][subscriberName];
+        if (Object.keys(checkpoints[topicName]).length === 0) {
+            delete checkpoints[topicName];
+        }
+        return this.#writeCheckpoints();
+    }
+
+    /**
+     * Reads the checkpoints from the file the first time they're needed.
+     * Concurrent calls share the same read so that none of them overwrites the changes of another.
+     * @returns {Promise<Checkpoints>} checkpoints
+     */
+    #readCheckpoints() {
+        if (!this.#checkpoints) {
+            this.#checkpoints = this.#readFile().catch((error) => {
+                // Read the file again on the next call
+                this.#checkpoints = null;
+                throw error;
+            });
+        }
+        return this.#checkpoints;
+    }
+
+    /**
+     * Reads the checkpoint file.
+     * @returns {Promise<Checkpoints>} checkpoints, empty if the file doesn't exist yet
+     */
+    async #readFile() {
+        try {
+            const content = await fs.promises.readFile(this.#filePath, 'utf8');
+            return JSON.parse(content) as Checkpoints;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw new Error(
+                    `Failed to read replay checkpoints from ${this.#filePath}`,
+                    // @ts-ignore
+                    { cause: error }
+                );
+            }
+            return {};
+        }
+    }
+
+    /**
+     * Writes the checkpoints to a temporary file then renames it over the checkpoint file.
+     * Writes are chained so that a slow write never overwrites a more recent one.
+     * Changes made while a write is in flight are coalesced into a single write of the latest checkpoints.
+     * @returns {Promise<void>} Promise that resolves once the checkpoints, including the latest changes, are written
+     */
+    #writeCheckpoints() {
+        if (this.#nextWrite) {
+            return this.#nextWrite;
+        }
+        const write = async () => {
+            this.#nextWrite = null;
+            const content = JSON.stringify(await this.#readCheckpoints(), null, 2);
+            const tempFilePath = `${this.#filePath}.${process.pid}.tmp`;
+            try {
+                const handle = await fs.promises.open(tempFilePath, 'w');
+                try {
+                    await handle.writeFile(content, 'utf8');
+                    await handle.sync();
+                } finally {
+                    await handle.close();
+                }
+                await fs.promises.rename(tempFilePath, this.#filePath);
+            } catch (error) {
+                throw new Error(
+                    `Failed to write replay checkpoints to ${this.#filePath}`,
+                    // @ts-ignore
+                    { cause: error }
+                );
+            }
+        };
+        this.#nextWrite = this.#pendingWrite.catch(() => {}).then(write);
+        this.#pendingWrite = this.#nextWrite;
+        return this.#nextWrite;
+    }
+}
@@ -0,0 +1,177 @@
+/**
+ * Maximum event batch size suppported by the Pub/Sub API as documented here:
+ * https://developer.salesforce.com/docs/platform/pub-sub-api/guide/flow-control.html
+ */
+const MAX_EVENT_BATCH_SIZE = 100;
+
+/**
+ * Handler-acknowledged flow control options.
+ * @alias FlowControlOptions
+ * @global
+ */
+export interface FlowControlOptions {
+    /**
+     * Maximum number of events that are requested or being processed at once (defaults to 100)
+     * @type {number | undefined}
+     */
+    highWaterMark?: number;
+    /**
+     * If true, events are considered processed once you call their `ack()` function.
+     * Otherwise, events are processed once the promises returned by the 'data' listeners settle.
+     * @type {boolean | undefined}
+     */
+    manualAck?: boolean;
+}
+
+/**
+ * Event that was received and that is being processed
+ * @private
+ */
+interface OutstandingEvent {
+    replayId: number | undefined;
+    isDone: boolean;
+}
+
+/**
+ * Requests events from the server based on the number of events that are still being processed.
+ * A new fetch request is only sent once all previously requested events were received
+ * and the outstanding work is below the high-water mark.
+ * @protected
+ */
+export default class FlowController {
+    #highWaterMark: number;
+    #isManualAck: boolean;
+    #requestEvents: (numRequested: number) => void;
+    #onEventsCompleted: (replayId: number) => void;
+
+    #pendingEventCount: number;
+    #outstandingEvents: OutstandingEvent[];
+    #idleWaiters: (() => void)[];
+    #isStopped: boolean;
+
+    /**
+     * Builds a new flow controller
+     * @param {FlowControlOptions} options flow control options
+     * @param {Function} requestEvents sends a fetch request for a number of events
+     * @param {Function} onEventsCompleted called with the replay ID of the last event once it and all the events before it are processed
+     */
+    constructor(
+        options: FlowControlOptions,
+        requestEvents: (numRequested: number) => void,
+        onEventsCompleted: (replayId: number) => void
+    ) {
+        this.#highWaterMark = options.highWaterMark ?? MAX_EVENT_BATCH_SIZE;
+        if (!Number.isSafeInteger(this.#highWaterMark) || this.#highWaterMark < 1) {
+            throw new Error(
+                `Expected an integer greater than 0 for flow control high-water mark but got ${this.#highWaterMark}`
+            );
+        }
+        this.#isManualAck = options.manualAck ?? false;
+        this.#requestEvents = requestEvents;
+        this.#onEventsCompleted = onEventsCompleted;
+        this.#pendingEventCount = 0;
+        this.#outstandingEvents = [];
+        this.#idleWaiters = [];
+        this.#isStopped = false;
+    }
+
+    /**
+     * Whether events are acknowledged with explicit `ack()` calls
+     * @returns {boolean}
+     */
+    isManualAck() {
+        return this.#isManualAck;
+    }
+
+    /**
+     * Whether all received events are processed
+     * @returns {boolean}
+     */
+    isIdle() {
+        return this.#outstandingEvents.length === 0;
+    }
+
+    /**
+     * Waits until all received events are processed.
+     * @returns {Promise<void>} Promise that resolves once there are no outstanding events
+     */
+    waitForIdle() {
+        if (this.isIdle()) {
+            return Promise.resolve();
+        }
+        return new Promise<void>((resolve) => this.#idleWaiters.push(resolve));
+    }
+
+    /**
+     * Stops requesting events. Outstanding events are still tracked until they're processed.
+     */
+    stop() {
+        this.#isStopped = true;
+    }
+
+    /**
+     * Returns the number of events to request when a stream is (re)opened.
+     * Events that were requested on a previous stream but never received are forgotten.
+     * @returns {number} number of events to request
+     */
+    getInitialRequestCount() {
+        this.#pendingEventCount = Math.max(
+            Math.min(
+                MAX_EVENT_BATCH_SIZE,
+                this.#highWaterMark - this.#outstandingEvents.length
+            ),
+            1
+        );
+        return this.#pendingEventCount;
+    }
+
+    /**
+     * Records that an event was received.
+     * @param {number} [replayId] replay ID of the event, if it could be decoded
+     * @returns {Function} function that must be called once the event is processed. Extra calls are ignored.
+     */
+    onEventReceived(replayId?: number) {
+        this.#pendingEventCount = Math.max(this.#pendingEventCount - 1, 0);
+        const outstandingEvent: OutstandingEvent = { replayId, isDone: false };
+        this.#outstandingEvents.push(outstandingEvent);
+        return () => {
+            if (outstandingEvent.isDone) {
+                return;
+            }
+            outstandingEvent.isDone = true;
+            this.#completeEvents();
+            this.#requestMoreEvents();
+        };
+    }
+
+    /**
+     * Removes processed events from the head of the outstanding events and reports progress.
+     */
+    #completeEvents() {
+        let lastCompletedReplayId;
+        while (this.#outstandingEvents.length > 0 && this.#outstandingEvents[0].isDone) {
+            const { replayId } = this.#outstandingEvents.shift() as OutstandingEvent;
+            if (replayId !== undefined) {
+                lastCompletedReplayId = replayId;
+            }
+        }
+        if (lastCompletedReplayId !== undefined) {
+            this.#onEventsCompleted(lastCompletedReplayId);
+        }
+        if (this.isIdle()) {
+            this.#idleWaiters.splice(0).forEach((resolve) => resolve());
+        }
+    }
+
+    /**
+     * Requests more events once all requested events were received and outstanding work dropped below the high-water mark.
+     */
+    #requestMoreEvents() {
+        const capacity = this.#highWaterMark - this.#outstandingEvents.length;
+        if (this.#isStopped || this.#pendingEventCount > 0 || capacity <= 0) {
+            return;
+        }
+        this.#pendingEventCount = Math.min(MAX_EVENT_BATCH_SIZE, capacity);
+        this.#requestEvents(this.#pendingEventCount);
+    }
+}
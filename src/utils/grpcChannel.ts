@@ -0,0 +1,192 @@
+import fs from 'fs';
+import * as grpc from '@grpc/grpc-js';
+// @ts-ignore
+import certifi from 'certifi';
+import HttpProxy from './httpProxy';
+
+/**
+ * Host names that plaintext connections are restricted to
+ */
+const LOOPBACK_HOSTS = ['localhost', '::1'];
+
+/**
+ * Generator of call metadata, as accepted by gRPC call credentials
+ */
+type MetadataGenerator = Parameters<
+    typeof grpc.credentials.createFromMetadataGenerator
+>[0];
+
+/**
+ * gRPC channel options.
+ * @alias ChannelOptions
+ * @global
+ */
+export interface ChannelOptions {
+    /**
+     * Interval in milliseconds between keepalive pings sent on the connection (defaults to the gRPC default)
+     * @type {number | undefined}
+     */
+    keepaliveTimeMs?: number;
+    /**
+     * Time in milliseconds to wait for a keepalive ping acknowledgement before closing the connection
+     * @type {number | undefined}
+     */
+    keepaliveTimeoutMs?: number;
+    /**
+     * Maximum size in bytes of received messages (defaults to 4 MB)
+     * @type {number | undefined}
+     */
+    maxReceiveMessageLength?: number;
+    /**
+     * Delay in milliseconds before the channel first attempts to reconnect after losing its connection
+     * @type {number | undefined}
+     */
+    initialReconnectBackoffMs?: number;
+    /**
+     * Optional path of a PEM file with additional trusted CA certificates, for example the certificate of a TLS-inspecting proxy.
+     * The certificates are trusted on top of the default CA bundle.
+     * @type {string | undefined}
+     */
+    caFile?: string;
+    /**
+     * Whether to connect without TLS to a local stand-in of the Pub/Sub API.
+     * Only loopback endpoints (localhost, 127.0.0.0/8 and [::1]) are accepted in this mode.
+     * @type {boolean | undefined}
+     */
+    plaintext?: boolean;
+}
+
+/**
+ * Checks whether an endpoint designates the local machine.
+ * @param {string} endpoint endpoint formatted as host:port
+ * @returns {boolean} true if the host is a loopback address
+ */
+export function isLoopbackEndpoint(endpoint: string) {
+    const host = endpoint
+        .substring(0, endpoint.lastIndexOf(':'))
+        .replace(/^\[(.*)\]$/, '$1')
+        .toLowerCase();
+    return (
+        LOOPBACK_HOSTS.includes(host) ||
+        host.endsWith('.localhost') ||
+        /^127(\.\d{1,3}){3}$/.test(host)
+    );
+}
+
+/**
+ * Builds the credentials and options of a gRPC channel.
+ * With TLS, call metadata is attached with call credentials.
+ * Since gRPC doesn't send call credentials over insecure channels, plaintext channels attach it with an interceptor instead.
+ * @param {string} endpoint endpoint formatted as host:port
+ * @param {ChannelOptions} channelOptions channel options
+ * @param {MetadataGenerator} metadataGenerator generator of the metadata of each call
+ * @param {HttpProxy} [proxy] optional HTTP proxy that the channel tunnels through. Plaintext channels never use it.
+ * @returns {Object} address to connect to, channel credentials and client options
+ */
+export function createChannel(
+    endpoint: string,
+    channelOptions: ChannelOptions,
+    metadataGenerator: MetadataGenerator,
+    proxy?: HttpProxy
+) {
+    const options: Partial<grpc.ClientOptions> = {};
+    if (channelOptions.keepaliveTimeMs !== undefined) {
+        options['grpc.keepalive_time_ms'] = channelOptions.keepaliveTimeMs;
+    }
+    if (channelOptions.keepaliveTimeoutMs !== undefined) {
+        options['grpc.keepalive_timeout_ms'] = channelOptions.keepaliveTimeoutMs;
+    }
+    if (channelOptions.maxReceiveMessageLength !== undefined) {
+        options['grpc.max_receive_message_length'] =
+            channelOptions.maxReceiveMessageLength;
+    }
+    if (channelOptions.initialReconnectBackoffMs !== undefined) {
+        options['grpc.initial_reconnect_backoff_ms'] =
+            channelOptions.initialReconnectBackoffMs;
+    }
+
+    if (channelOptions.plaintext) {
+        // Checked again here so that no code path sends credentials in clear text to a remote host
+        if (!isLoopbackEndpoint(endpoint)) {
+            throw new Error(
+                `Plaintext connections are only allowed to loopback endpoints, not to ${endpoint}`
+            );
+        }
+        options.interceptors = [
+            createMetadataInterceptor(endpoint, metadataGenerator)
+        ];
+        return {
+            address: endpoint,
+            credentials: grpc.credentials.createInsecure(),
+            options
+        };
+    }
+
+    let rootCerts = fs.readFileSync(certifi);
+    if (channelOptions.caFile) {
+        try {
+            rootCerts = Buffer.concat([
+                rootCerts,
+                Buffer.from('\n'),
+                fs.readFileSync(channelOptions.caFile)
+            ]);
+        } catch (error) {
+            throw new Error(
+                `Failed to read CA file ${channelOptions.caFile}`,
+                // @ts-ignore
+                { cause: error }
+            );
+        }
+    }
+    const credentials = grpc.credentials.combineChannelCredentials(
+        grpc.credentials.createSsl(rootCerts),
+        grpc.credentials.createFromMetadataGenerator(metadataGenerator)
+    );
+    if (!proxy) {
+        return { address: endpoint, credentials, options };
+    }
+    const proxyChannel = proxy.getGrpcChannel(endpoint);
+    return {
+        address: proxyChannel.address,
+        credentials,
+        options: { ...options, ...proxyChannel.options }
+    };
+}
+
+/**
+ * Builds an interceptor that adds generated metadata to each call.
+ * Calls fail with an UNAVAILABLE status if the metadata can't be generated, like with call credentials.
+ * @param {string} endpoint endpoint formatted as host:port
+ * @param {MetadataGenerator} metadataGenerator generator of the metadata of each call
+ * @returns {grpc.Interceptor} interceptor
+ */
+function createMetadataInterceptor(
+    endpoint: string,
+    metadataGenerator: MetadataGenerator
+): grpc.Interceptor {
+    return (options, nextCall) =>
+        new grpc.InterceptingCall(nextCall(options), {
+            start: (metadata, listener, next) => {
+                const { path } = options.method_definition;
+                const separatorIndex = path.lastIndexOf('/');
+                metadataGenerator(
+                    {
+                        service_url: `http://${endpoint}${path.substring(0, separatorIndex)}`,
+                        method_name: path.substring(separatorIndex + 1)
+                    },
+                    (error, generatedMetadata) => {
+                        if (error || !generatedMetadata) {
+                            listener.onReceiveStatus({
+                                code: grpc.status.UNAVAILABLE,
+                                details: `Getting metadata from plugin failed with error: ${error?.message}`,
+                                metadata: new grpc.Metadata()
+                            });
+                            return;
+                        }
+                        metadata.merge(generatedMetadata);
+                        next(metadata, listener);
+                    }
+                );
+            }
+        });
+}
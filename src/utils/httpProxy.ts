@@ -0,0 +1,164 @@
+import { ProxyAgent } from 'undici';
+
+/**
+ * HTTP proxy options.
+ * @alias ProxyOptions
+ * @global
+ */
+export interface ProxyOptions {
+    /**
+     * URL of the proxy, for example `http://proxy.example.com:3128`
+     * @type {string}
+     */
+    url: string;
+    /**
+     * Optional proxy username. Takes precedence over the username of the URL.
+     * @type {string | undefined}
+     */
+    username?: string;
+    /**
+     * Optional proxy password. Takes precedence over the password of the URL.
+     * @type {string | undefined}
+     */
+    password?: string;
+    /**
+     * Optional hosts that are reached without the proxy.
+     * Entries match a host name, an IP address or, with a leading dot or `*.`, a domain and its subdomains. `*` matches all hosts.
+     * @type {string[] | undefined}
+     */
+    noProxy?: string[];
+}
+
+/**
+ * Routes the outbound connections of the client through an HTTP proxy with the CONNECT method:
+ * the gRPC channel, the OAuth calls made with fetch and the jsforce login.
+ * @alias HttpProxy
+ * @global
+ */
+export default class HttpProxy {
+    #url: URL;
+    #credentials: string | null;
+    #noProxy: string[];
+    #dispatcher: ProxyAgent | null;
+
+    /**
+     * Builds a new HTTP proxy
+     * @param {ProxyOptions} options proxy options
+     */
+    constructor(options: ProxyOptions) {
+        this.#url = new URL(options.url);
+        if (this.#url.protocol !== 'http:') {
+            throw new Error(
+                `Unsupported proxy protocol ${this.#url.protocol} Expected an http: proxy URL.`
+            );
+        }
+        const username =
+            options.username ?? decodeURIComponent(this.#url.username);
+        const password =
+            options.password ?? decodeURIComponent(this.#url.password);
+        this.#credentials = username ? `${username}:${password}` : null;
+        this.#url.username = '';
+        this.#url.password = '';
+        this.#noProxy = (options.noProxy ?? [])
+            .map((entry) => entry.trim().toLowerCase())
+            .filter((entry) => entry.length > 0);
+        this.#dispatcher = null;
+    }
+
+    /**
+     * Checks whether a host is reached without the proxy.
+     * @param {string} host host name or IP address
+     * @returns {boolean} true if the host matches the no-proxy list
+     */
+    isBypassed(host: string) {
+        const normalizedHost = host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+        return this.#noProxy.some((entry) => {
+            if (entry === '*') {
+                return true;
+            }
+            const domain = entry.replace(/^\*?\./, '');
+            return (
+                normalizedHost === domain ||
+                normalizedHost.endsWith(`.${domain}`)
+            );
+        });
+    }
+
+    /**
+     * Returns the undici dispatcher to use for a request.
+     * @param {string} url URL of the request
+     * @returns {ProxyAgent | undefined} proxy dispatcher or undefined if the host is reached without the proxy
+     */
+    getDispatcher(url: string) {
+        if (this.isBypassed(new URL(url).hostname)) {
+            return undefined;
+        }
+        if (!this.#dispatcher) {
+            this.#dispatcher = new ProxyAgent({
+                uri: this.#url.toString(),
+                token: this.#credentials
+                    ? `Basic ${Buffer.from(this.#credentials).toString('base64')}`
+                    : undefined
+            });
+        }
+        return this.#dispatcher;
+    }
+
+    /**
+     * Returns the proxy URL to pass to jsforce for a request.
+     * @param {string} url URL of the request
+     * @returns {string | undefined} proxy URL including credentials or undefined if the host is reached without the proxy
+     */
+    getJsforceProxyUrl(url: string) {
+        if (this.isBypassed(new URL(url).hostname)) {
+            return undefined;
+        }
+        if (!this.#credentials) {
+            return this.#url.toString();
+        }
+        const [username, ...password] = this.#credentials.split(':');
+        const proxyUrl = new URL(this.#url.toString());
+        proxyUrl.username = encodeURIComponent(username);
+        proxyUrl.password = encodeURIComponent(password.join(':'));
+        return proxyUrl.toString();
+    }
+
+    /**
+     * Returns the address and options of a gRPC channel that tunnels to an endpoint through the proxy.
+     * The proxy settings of the environment are ignored so that only this proxy is used.
+     * @param {string} endpoint endpoint formatted as host:port
+     * @returns {Object} address to connect to and gRPC channel options
+     */
+    getGrpcChannel(endpoint: string) {
+        const host = endpoint.substring(0, endpoint.lastIndexOf(':'));
+        if (this.isBypassed(host)) {
+            return {
+                address: endpoint,
+                options: { 'grpc.enable_http_proxy': 0 }
+            };
+        }
+        const options: Record<string, string | number> = {
+            'grpc.enable_http_proxy': 0,
+            'grpc.http_connect_target': `dns:${endpoint}`,
+            // Authority of the requests and name checked against the server certificate
+            'grpc.default_authority': endpoint
+        };
+        if (this.#credentials) {
+            options['grpc.http_connect_creds'] = this.#credentials;
+        }
+        return {
+            address: `${this.#url.hostname}:${this.#url.port || 80}`,
+            options
+        };
+    }
+
+    /**
+     * Closes the connections of the proxy dispatcher.
+     * @returns {Promise<void>} Promise that resolves once the connections are closed
+     */
+    async close() {
+        const dispatcher = this.#dispatcher;
+        this.#dispatcher = null;
+        await dispatcher?.close();
+    }
+}
@@ -0,0 +1,39 @@
+import { ZodIssue } from 'zod'
+
+/**
+ * Holds the information related to a payload that doesn't match the schema or the business constraints of its topic.
+ * @alias PayloadValidationError
+ * @global
+ */
+export default class PayloadValidationError extends Error {
+  /**
+   * The name of the topic of the payload.
+   * @type {string}
+   * @public
+   */
+  public topicName: string
+
+  /**
+   * The validation issues.
+   * Union values are wrapped so the path of a union value ends with the name of its type, for example `Message__c.string`.
+   * @type {ZodIssue[]}
+   * @public
+   */
+  public issues: ZodIssue[]
+
+  /**
+   * Builds a new PayloadValidationError error.
+   * @param {string} topicName The name of the topic of the payload.
+   * @param {ZodIssue[]} issues The validation issues.
+   * @protected
+   */
+  constructor(topicName: string, issues: ZodIssue[]) {
+    super(
+      `Invalid payload for topic ${topicName}: ${issues
+        .map((issue) => `${issue.path.join('.') || '(payload)'}: ${issue.message}`)
+        .join('; ')}`
+    )
+    this.topicName = topicName
+    this.issues = issues
+  }
+}
@@ -0,0 +1,354 @@
+import avro from 'avro-js';
+import { z } from 'zod';
+import { getUnionBranchName } from './avroHelper';
+import PayloadValidationError from './payloadValidationError';
+
+/**
+ * Business constraints of a payload field, on top of the constraints of its Avro type.
+ * @alias FieldConstraints
+ * @global
+ */
+export interface FieldConstraints {
+    /**
+     * If true, the field can't be null or left out even if its Avro type is nullable or has a default value
+     * @type {boolean | undefined}
+     */
+    required?: boolean;
+    /**
+     * Optional minimum length of string values
+     * @type {number | undefined}
+     */
+    minLength?: number;
+    /**
+     * Optional maximum length of string values, for example the length of the matching Salesforce field
+     * @type {number | undefined}
+     */
+    maxLength?: number;
+    /**
+     * Optional pattern that string values must match
+     * @type {RegExp | undefined}
+     */
+    pattern?: RegExp;
+    /**
+     * Optional allowed string values, for example the values of a picklist
+     * @type {string[] | undefined}
+     */
+    values?: string[];
+}
+
+/**
+ * Business constraints of the fields of a payload indexed by field path.
+ * Fields of nested records are separated with dots, for example `BillingAddress.City`.
+ * @alias PayloadConstraints
+ * @global
+ */
+export type PayloadConstraints = Record<string, FieldConstraints>;
+
+/**
+ * Payload validation options.
+ * @alias PayloadValidationOptions
+ * @global
+ */
+export interface PayloadValidationOptions {
+    /**
+     * Whether received events are validated (defaults to true). Invalid events are reported as parsing errors.
+     * @type {boolean | undefined}
+     */
+    subscribe?: boolean;
+    /**
+     * Whether payloads are validated before they're published (defaults to true). Invalid payloads are rejected without being sent.
+     * @type {boolean | undefined}
+     */
+    publish?: boolean;
+    /**
+     * Optional business constraints indexed by topic name
+     * @type {Record<string, PayloadConstraints> | undefined}
+     */
+    constraints?: Record<string, PayloadConstraints>;
+}
+
+/**
+ * Builds a zod schema that validates payloads against an Avro record type and optional business constraints.
+ * Payloads are validated in the form used by avro-js: union values other than null are wrapped in an object
+ * keyed by the name of their type, for example `{ string: 'Hello' }`.
+ * This is the form of the payloads passed to publish and of received payloads before their unions are unwrapped.
+ * @param {Object} type Avro record type
+ * @param {PayloadConstraints} [constraints] business constraints indexed by field path
+ * @returns {z.ZodTypeAny} zod schema of the payloads
+ */
+export function createPayloadSchema(
+    type: avro.types.RecordType,
+    constraints: PayloadConstraints = {}
+) {
+    const unusedPaths = new Set(Object.keys(constraints));
+    const schema = toZodSchema(type, '', {
+        constraints,
+        unusedPaths,
+        recordSchemas: new Map()
+    });
+    if (unusedPaths.size > 0) {
+        throw new Error(
+            `Unknown fields in payload constraints: ${[...unusedPaths].join(', ')}`
+        );
+    }
+    return schema;
+}
+
+/**
+ * Validates a payload with a schema built by {@link createPayloadSchema}.
+ * @param {z.ZodTypeAny} schema payload schema
+ * @param {string} topicName name of the topic of the payload
+ * @param {unknown} payload payload to validate
+ * @throws {PayloadValidationError} if the payload is invalid
+ */
+export function validatePayload(
+    schema: z.ZodTypeAny,
+    topicName: string,
+    payload: unknown
+) {
+    // The parsed copy is discarded so that payloads keep their Avro types (records, buffers, bigints)
+    const result = schema.safeParse(payload);
+    if (!result.success) {
+        throw new PayloadValidationError(topicName, result.error.issues);
+    }
+}
+
+/**
+ * State shared while building the schema of a payload
+ * @private
+ */
+interface BuildContext {
+    constraints: PayloadConstraints;
+    unusedPaths: Set<string>;
+    recordSchemas: Map<avro.types.RecordType, z.ZodTypeAny>;
+}
+
+/**
+ * Converts an Avro type into a zod schema.
+ * @param {Object} type Avro type
+ * @param {string} path path of the field holding the type or an empty string for the payload record
+ * @param {BuildContext} context build state
+ * @param {FieldConstraints} [fieldConstraints] business constraints of the field
+ * @returns {z.ZodTypeAny} zod schema
+ */
+function toZodSchema(
+    type: avro.Type,
+    path: string,
+    context: BuildContext,
+    fieldConstraints?: FieldConstraints
+): z.ZodTypeAny {
+    if (type instanceof avro.types.UnionType) {
+        const types = type.getTypes();
+        const isNullable =
+            !fieldConstraints?.required &&
+            types.some((branch) => branch instanceof avro.types.NullType);
+        const branches: z.ZodTypeAny[] = types
+            .filter((branch) => !(branch instanceof avro.types.NullType))
+            .map((branch) =>
+                toStrictObject({
+                    [getUnionBranchName(branch)]: toZodSchema(
+                        branch,
+                        path,
+                        context,
+                        fieldConstraints
+                    )
+                })
+            );
+        if (branches.length === 0) {
+            if (!isNullable) {
+                throw new Error(`Field ${path} can't be required: its only type is null`);
+            }
+            return z.null();
+        }
+        // Single branch unions such as ['null', 'string'] report the issues of their branch rather than a union mismatch
+        const schema =
+            branches.length === 1
+                ? branches[0]
+                : z.union(branches as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+        return isNullable ? schema.nullable() : schema;
+    }
+    if (type instanceof avro.types.RecordType) {
+        return toRecordSchema(type, path, context);
+    }
+    if (type instanceof avro.types.StringType) {
+        return toStringSchema(fieldConstraints);
+    }
+    if (type instanceof avro.types.ArrayType) {
+        return z.array(toZodSchema(type.getItemsType(), path, context));
+    }
+    if (type instanceof avro.types.MapType) {
+        return z.record(toZodSchema(type.getValuesType(), path, context));
+    }
+    if (type instanceof avro.types.EnumType) {
+        return z.enum(type.getSymbols());
+    }
+    if (type instanceof avro.types.FixedType) {
+        const size = type.getSize();
+        return z
+            .instanceof(Buffer)
+            .refine((value) => value.length === size, `Expected ${size} bytes`);
+    }
+    if (type instanceof avro.types.NullType) {
+        return z.null();
+    }
+    if (type instanceof avro.types.BooleanType) {
+        return z.boolean();
+    }
+    if (type instanceof avro.types.IntType) {
+        return z.number().int();
+    }
+    if (type instanceof avro.types.LongType) {
+        // Matches CustomLongAvroType: values beyond the safe integer range are bigints
+        return z.custom<number | bigint>(
+            (value) => Number.isInteger(value) || typeof value === 'bigint',
+            'Expected an integer or a bigint'
+        );
+    }
+    if (
+        type instanceof avro.types.FloatType ||
+        type instanceof avro.types.DoubleType
+    ) {
+        return z.number();
+    }
+    if (type instanceof avro.types.BytesType) {
+        return z.instanceof(Buffer);
+    }
+    // Logical types are left to avro-js
+    return z.any();
+}
+
+/**
+ * Converts an Avro record type into a zod object schema.
+ * Schemas are built once per record type so that recursive types refer to themselves.
+ * Records nested in several fields are only shared when none of their fields have constraints.
+ * @param {Object} type Avro record type
+ * @param {string} path path of the field holding the record or an empty string for the payload record
+ * @param {BuildContext} context build state
+ * @returns {z.ZodTypeAny} zod schema
+ */
+function toRecordSchema(
+    type: avro.types.RecordType,
+    path: string,
+    context: BuildContext
+): z.ZodTypeAny {
+    const pathPrefix = path ? `${path}.` : '';
+    const hasConstraints = Object.keys(context.constraints).some((fieldPath) =>
+        fieldPath.startsWith(pathPrefix)
+    );
+    const existingSchema = context.recordSchemas.get(type);
+    if (existingSchema && !hasConstraints) {
+        return existingSchema;
+    }
+    let recordSchema: z.ZodTypeAny | undefined;
+    const lazySchema = z.lazy(() => recordSchema as z.ZodTypeAny);
+    if (!hasConstraints) {
+        context.recordSchemas.set(type, lazySchema);
+    }
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const field of type.getFields()) {
+        const fieldPath = `${pathPrefix}${field.getName()}`;
+        const fieldConstraints = context.constraints[fieldPath];
+        if (fieldConstraints) {
+            context.unusedPaths.delete(fieldPath);
+            if (
+                hasStringConstraints(fieldConstraints) &&
+                !hasStringType(field.getType())
+            ) {
+                throw new Error(
+                    `Field ${fieldPath} can't have string constraints: it doesn't hold strings`
+                );
+            }
+        }
+        const fieldSchema = toZodSchema(
+            field.getType(),
+            fieldPath,
+            context,
+            fieldConstraints
+        );
+        // avro-js encodes the default value of fields that are left out
+        shape[field.getName()] =
+            field.getDefault() !== undefined && !fieldConstraints?.required
+                ? fieldSchema.optional()
+                : fieldSchema;
+    }
+    recordSchema = toStrictObject(shape);
+    return lazySchema;
+}
+
+/**
+ * Builds the schema of an object that rejects unknown properties.
+ * Unlike z.object().strict(), only own properties are checked: objects decoded by avro-js have enumerable methods on their prototype.
+ * @param {Record<string, z.ZodTypeAny>} shape schemas of the properties
+ * @returns {z.ZodTypeAny} zod schema
+ */
+function toStrictObject(shape: Record<string, z.ZodTypeAny>): z.ZodTypeAny {
+    return z
+        .any()
+        .superRefine((value, ctx) => {
+            if (typeof value !== 'object' || value === null) {
+                return;
+            }
+            const unknownKeys = Object.keys(value).filter((key) => !(key in shape));
+            if (unknownKeys.length > 0) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.unrecognized_keys,
+                    keys: unknownKeys
+                });
+            }
+        })
+        .pipe(z.object(shape).passthrough());
+}
+
+/**
+ * Builds the schema of a string with business constraints
+ * @param {FieldConstraints} [fieldConstraints] business constraints of the field
+ * @returns {z.ZodTypeAny} zod schema
+ */
+function toStringSchema(fieldConstraints?: FieldConstraints): z.ZodTypeAny {
+    let schema = z.string();
+    if (fieldConstraints?.minLength !== undefined) {
+        schema = schema.min(fieldConstraints.minLength);
+    }
+    if (fieldConstraints?.maxLength !== undefined) {
+        schema = schema.max(fieldConstraints.maxLength);
+    }
+    if (fieldConstraints?.pattern) {
+        schema = schema.regex(fieldConstraints.pattern);
+    }
+    const values = fieldConstraints?.values;
+    if (values) {
+        return schema.refine(
+            (value) => values.includes(value),
+            `Expected one of ${values.join(', ')}`
+        );
+    }
+    return schema;
+}
+
+/**
+ * Checks whether field constraints apply to strings
+ * @param {FieldConstraints} fieldConstraints business constraints of a field
+ * @returns {boolean} true if the constraints include string constraints
+ */
+function hasStringConstraints(fieldConstraints: FieldConstraints) {
+    return (
+        fieldConstraints.minLength !== undefined ||
+        fieldConstraints.maxLength !== undefined ||
+        fieldConstraints.pattern !== undefined ||
+        fieldConstraints.values !== undefined
+    );
+}
+
+/**
+ * Checks whether an Avro type holds strings directly or as a union branch
+ * @param {Object} type Avro type
+ * @returns {boolean} true if the type holds strings
+ */
+function hasStringType(type: avro.Type) {
+    if (type instanceof avro.types.UnionType) {
+        return type
+            .getTypes()
+            .some((branch) => branch instanceof avro.types.StringType);
+    }
+    return type instanceof avro.types.StringType;
+}
@@ -1,17 +1,23 @@
+import crypto from 'crypto';
 import { EventEmitter } from 'events';
+import type { ParsedEvent } from './eventParser';
 
 /**
  * EventEmitter wrapper for processing incoming Pub/Sub API events
  * while keeping track of the topic name and the volume of events requested/received.
+ * The type parameter is the type of the event payloads received by 'data' listeners.
  * @alias PubSubEventEmitter
  * @global
  */
-export default class PubSubEventEmitter extends EventEmitter {
+export default class PubSubEventEmitter<T = any> extends EventEmitter {
+    #subscriptionId;
     #topicName;
     #requestedEventCount;
     #receivedEventCount;
     // @ts-ignore
     #latestReplayId;
+    #latestSchemaId: string | null;
+    #pendingListeners: Promise<void>;
 
     /**
      * Create a new EventEmitter for Pub/Sub API events
@@ -22,19 +28,72 @@ export default class PubSubEventEmitter extends EventEmitter {
     // @ts-ignore
     constructor(topicName, requestedEventCount) {
         super();
+        this.#subscriptionId = crypto.randomUUID();
         this.#topicName = topicName;
         this.#requestedEventCount = requestedEventCount;
         this.#receivedEventCount = 0;
         this.#latestReplayId = null;
+        this.#latestSchemaId = null;
+        this.#pendingListeners = Promise.resolve();
     }
-// @ts-ignore
-    emit(eventName, args) {
-        // Track Pub/Sub API events
+    emit(eventName: string | symbol, ...args: any[]) {
+        this.#trackEvent(eventName, args[0]);
+        return super.emit(eventName, ...args);
+    }
+
+    /**
+     * Adds a listener. 'data' listeners receive parsed events with typed payloads.
+     * @param {string} eventName
+     * @param {Function} listener
+     * @returns {PubSubEventEmitter} this emitter
+     */
+    on(eventName: 'data', listener: (event: ParsedEvent<T>) => unknown): this;
+    on(eventName: string | symbol, listener: (...args: any[]) => void): this;
+    // @ts-ignore
+    on(eventName, listener) {
+        return super.on(eventName, listener);
+    }
+
+    /**
+     * Adds a one-time listener. 'data' listeners receive parsed events with typed payloads.
+     * @param {string} eventName
+     * @param {Function} listener
+     * @returns {PubSubEventEmitter} this emitter
+     */
+    once(eventName: 'data', listener: (event: ParsedEvent<T>) => unknown): this;
+    once(eventName: string | symbol, listener: (...args: any[]) => void): this;
+    // @ts-ignore
+    once(eventName, listener) {
+        return super.once(eventName, listener);
+    }
+
+    /**
+     * Emits an event and waits for the promises returned by async listeners.
+     * Listeners are called in registration order and the returned promise rejects if any listener fails.
+     * @param {string} eventName
+     * @param {*} args
+     * @returns {Promise<boolean>} Promise that resolves once all listeners are done, holding true if the event had listeners
+     * @protected
+     */
+    // @ts-ignore
+    async emitAndWait(eventName, args) {
+        this.#trackEvent(eventName, args);
+        const listeners = this.rawListeners(eventName);
+        await Promise.all(listeners.map((listener) => listener.call(this, args)));
+        return listeners.length > 0;
+    }
+
+    /**
+     * Tracks Pub/Sub API events
+     * @param {string} eventName
+     * @param {*} args
+     */
+    // @ts-ignore
+    #trackEvent(eventName, args) {
         if (eventName === 'data') {
             this.#receivedEventCount++;
             this.#latestReplayId = args.replayId;
         }
-        return super.emit(eventName, args);
     }
 
     /**
@@ -53,6 +112,15 @@ export default class PubSubEventEmitter extends EventEmitter {
         return this.#receivedEventCount;
     }
 
+    /**
+     * Returns the unique ID of this subscription.
+     * Several subscriptions to the same topic have different IDs.
+     * @returns {string} the subscription ID
+     */
+    getSubscriptionId() {
+        return this.#subscriptionId;
+    }
+
     /**
      * Returns the topic name for this subscription.
      * @returns {string} the topic name
@@ -69,6 +137,54 @@ export default class PubSubEventEmitter extends EventEmitter {
         return this.#latestReplayId;
     }
 
+    /**
+     * Returns the ID of the schema of the last received event or null if no event was received yet.
+     * @returns {string | null} schema ID
+     */
+    getLatestSchemaId() {
+        return this.#latestSchemaId;
+    }
+
+    /**
+     * @protected
+     * Records the schema ID of a received event.
+     * This method should only be be used internally by the client when it parses events.
+     * @param {string} schemaId
+     * @returns {string | null} the previous schema ID if the schema changed, null otherwise
+     */
+    _trackSchemaId(schemaId: string) {
+        const previousSchemaId = this.#latestSchemaId;
+        this.#latestSchemaId = schemaId;
+        return previousSchemaId !== null && previousSchemaId !== schemaId
+            ? previousSchemaId
+            : null;
+    }
+
+    /**
+     * @protected
+     * Tracks the listeners of an event that was emitted without waiting for them.
+     * This method should only be be used internally by the client when it emits events.
+     * @param {Promise<unknown>} listenersDone Promise that settles once the listeners of the event are done and never rejects
+     * @returns {Promise<void>} Promise that resolves once the listeners of this event and of all previously tracked events are done
+     */
+    _trackListeners(listenersDone: Promise<unknown>) {
+        this.#pendingListeners = Promise.all([
+            this.#pendingListeners,
+            listenersDone
+        ]).then(() => {});
+        return this.#pendingListeners;
+    }
+
+    /**
+     * @protected
+     * Waits for the listeners of the events that were emitted so far.
+     * This method should only be be used internally by the client when it drains subscriptions or commits keepalive replay IDs.
+     * @returns {Promise<void>} Promise that resolves once the tracked listeners are done
+     */
+    _waitForListeners() {
+        return this.#pendingListeners;
+    }
+
     /**
      * @protected
      * Resets the requested/received event counts.
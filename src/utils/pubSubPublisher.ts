@@ -0,0 +1,506 @@
+import crypto from 'crypto';
+import avro from 'avro-js';
+import { ClientDuplexStream, ServiceError } from '@grpc/grpc-js';
+import { PublishRequest, PublishResponse } from '../pubsub_api';
+import type { PublishResult } from '../client';
+import { wrapUnionValues } from './avroHelper';
+import { parsePublishResult } from './eventParser';
+import { isRetryableStatus } from './reconnectPolicy';
+
+/**
+ * Maximum number of events sent in a single publish request.
+ * The Pub/Sub API accepts up to 200 events per request as documented here:
+ * https://developer.salesforce.com/docs/platform/pub-sub-api/guide/pub-sub-features.html
+ */
+const MAX_PUBLISH_BATCH_SIZE = 200;
+
+/**
+ * The server closes a publish stream that hasn't received a publish request with events for 70 seconds.
+ */
+const SERVER_IDLE_TIMEOUT_MS = 70000;
+
+/**
+ * Default delay without publish requests after which a keepalive event is published, a little before the server closes the stream.
+ */
+const DEFAULT_KEEPALIVE_INTERVAL_MS = 60000;
+
+/**
+ * @typedef {Object} PublisherOptions
+ * @property {number} [maxBatchSize] maximum number of events per publish request (defaults to 100, max 200)
+ * @property {number} [lingerMs] how long queued events wait for a batch to fill up before being sent (defaults to 50ms)
+ * @property {number} [maxInFlightBatches] maximum number of publish requests awaiting a response (defaults to 5)
+ * @property {Function} [keepalivePayload] returns the payload of the keepalive events that keep an idle stream open
+ * @property {number} [keepaliveIntervalMs] delay without publish requests after which a keepalive event is published (defaults to 60s, must be below 70s)
+ * @global
+ */
+export interface PublisherOptions<T = any> {
+    maxBatchSize?: number;
+    lingerMs?: number;
+    maxInFlightBatches?: number;
+    keepalivePayload?: () => T;
+    keepaliveIntervalMs?: number;
+}
+
+/**
+ * @typedef {Object} Schema
+ * @property {string} id
+ * @property {Object} type
+ * @property {Function} [validate] optional payload validation, called with wrapped union values before payloads are encoded
+ * @protected
+ */
+interface Schema {
+    id: string;
+    type: avro.Type;
+    validate?: (payload: unknown) => void;
+}
+
+/**
+ * An event waiting to be published or awaiting its publish result
+ * @private
+ */
+interface PendingEvent {
+    correlationKey: string;
+    payload: unknown;
+    isResent?: boolean;
+    promise: Promise<PublishResult>;
+    resolve: (result: PublishResult) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Publishes events on a single topic through a long-lived PublishStream RPC.
+ * Events are queued into batches and several batches can be in flight at once.
+ * Each publication is matched back to its caller thanks to the event correlation key.
+ * When the stream closes with a retryable status, events awaiting their publish result are sent once more on a new stream
+ * with the same correlation key. They may have been published already, so consumers may receive them twice.
+ * Events that fail again, or that fail with a non-retryable status, are rejected and callers decide whether to retry.
+ * The server only keeps streams that receive events: when a keepalive payload is provided, a keepalive event is published
+ * whenever no publish request was sent for a while.
+ * @alias PubSubPublisher
+ * @global
+ */
+export default class PubSubPublisher<T = unknown> {
+    #topicName: string;
+    #streamFactory: () => ClientDuplexStream<PublishRequest, PublishResponse>;
+    #schemaLoader: () => Promise<Schema>;
+    // @ts-ignore
+    #logger;
+
+    #maxBatchSize: number;
+    #lingerMs: number;
+    #maxInFlightBatches: number;
+    #keepalivePayload: (() => T) | null;
+    #keepaliveIntervalMs: number;
+
+    #stream: ClientDuplexStream<PublishRequest, PublishResponse> | null;
+    #schema: Schema | null;
+    #queue: PendingEvent[];
+    #inFlightEvents: Map<string, PendingEvent>;
+    #inFlightBatchCount: number;
+    #lingerTimer: NodeJS.Timeout | null;
+    #keepaliveTimer: NodeJS.Timeout | null;
+    #isDraining: boolean;
+    #isClosed: boolean;
+
+    /**
+     * Builds a new publisher
+     * @param {string} topicName name of the topic that we're publishing on
+     * @param {Function} streamFactory opens a new PublishStream
+     * @param {Function} schemaLoader loads the current schema of the topic
+     * @param {Logger} logger
+     * @param {PublisherOptions} [options] publisher options
+     * @protected
+     */
+    constructor(
+        topicName: string,
+        streamFactory: () => ClientDuplexStream<PublishRequest, PublishResponse>,
+        schemaLoader: () => Promise<Schema>,
+        // @ts-ignore
+        logger,
+        options: PublisherOptions<T> = {}
+    ) {
+        this.#topicName = topicName;
+        this.#streamFactory = streamFactory;
+        this.#schemaLoader = schemaLoader;
+        this.#logger = logger;
+
+        this.#maxBatchSize = options.maxBatchSize ?? 100;
+        this.#lingerMs = options.lingerMs ?? 50;
+        this.#maxInFlightBatches = options.maxInFlightBatches ?? 5;
+        this.#keepalivePayload = options.keepalivePayload ?? null;
+        this.#keepaliveIntervalMs =
+            options.keepaliveIntervalMs ?? DEFAULT_KEEPALIVE_INTERVAL_MS;
+        if (
+            !Number.isSafeInteger(this.#maxBatchSize) ||
+            this.#maxBatchSize < 1 ||
+            this.#maxBatchSize > MAX_PUBLISH_BATCH_SIZE
+        ) {
+            throw new Error(
+                `Expected a max batch size between 1 and ${MAX_PUBLISH_BATCH_SIZE} but got ${this.#maxBatchSize}`
+            );
+        }
+        if (
+            !Number.isSafeInteger(this.#maxInFlightBatches) ||
+            this.#maxInFlightBatches < 1
+        ) {
+            throw new Error(
+                `Expected an integer greater than 0 for max in-flight batches but got ${this.#maxInFlightBatches}`
+            );
+        }
+        if (
+            !(this.#keepaliveIntervalMs > 0) ||
+            this.#keepaliveIntervalMs >= SERVER_IDLE_TIMEOUT_MS
+        ) {
+            throw new Error(
+                `Expected a keepalive interval between 0 and ${SERVER_IDLE_TIMEOUT_MS}ms but got ${this.#keepaliveIntervalMs}ms`
+            );
+        }
+
+        this.#stream = null;
+        this.#schema = null;
+        this.#queue = [];
+        this.#inFlightEvents = new Map();
+        this.#inFlightBatchCount = 0;
+        this.#lingerTimer = null;
+        this.#keepaliveTimer = null;
+        this.#isDraining = false;
+        this.#isClosed = false;
+    }
+
+    /**
+     * Returns the topic name for this publisher.
+     * @returns {string} the topic name
+     */
+    getTopicName() {
+        return this.#topicName;
+    }
+
+    /**
+     * Queues an event for publication.
+     * @param {Object} payload payload of the event that is being published
+     * @param {string} [correlationKey] optional correlation key. If you don't provide one, we'll generate a random UUID for you.
+     * @returns {Promise<PublishResult>} Promise that resolves with the publish result once the server acknowledged the event
+     */
+    publish(payload: T, correlationKey?: string): Promise<PublishResult> {
+        if (this.#isClosed) {
+            return Promise.reject(
+                new Error(`Publisher for topic ${this.#topicName} is closed.`)
+            );
+        }
+        const key = correlationKey ? correlationKey : crypto.randomUUID();
+        if (
+            this.#inFlightEvents.has(key) ||
+            this.#queue.some((event) => event.correlationKey === key)
+        ) {
+            return Promise.reject(
+                new Error(
+                    `An event with correlation key ${key} is already being published on ${this.#topicName}`
+                )
+            );
+        }
+
+        const pendingEvent = this.#enqueue(key, payload);
+
+        // Send right away if we have a full batch, otherwise wait a bit for more events
+        if (this.#queue.length >= this.#maxBatchSize) {
+            this.#drain();
+        } else if (!this.#lingerTimer) {
+            this.#lingerTimer = setTimeout(() => {
+                this.#lingerTimer = null;
+                this.#drain();
+            }, this.#lingerMs);
+        }
+        return pendingEvent.promise;
+    }
+
+    /**
+     * Sends all queued events and waits for their publish results.
+     * @returns {Promise<void>} Promise that resolves once all pending events are settled
+     */
+    async flush() {
+        const pendingPromises = [
+            ...this.#queue.map((event) => event.promise),
+            ...[...this.#inFlightEvents.values()].map((event) => event.promise)
+        ];
+        this.#drain();
+        await Promise.allSettled(pendingPromises);
+    }
+
+    /**
+     * Flushes pending events then closes the publish stream.
+     * Further calls to publish are rejected.
+     * @returns {Promise<void>} Promise that resolves once the publisher is closed
+     */
+    async close() {
+        this.#isClosed = true;
+        await this.flush();
+        this.#clearTimers();
+        this.#closeStream();
+        this.#logger.info(`Publisher for ${this.#topicName} closed`);
+    }
+
+    /**
+     * Adds an event to the queue.
+     * @param {string} correlationKey correlation key of the event
+     * @param {Object} payload payload of the event
+     * @returns {PendingEvent} queued event
+     */
+    #enqueue(correlationKey: string, payload: unknown) {
+        // @ts-ignore
+        const pendingEvent: PendingEvent = { correlationKey, payload };
+        pendingEvent.promise = new Promise((resolve, reject) => {
+            pendingEvent.resolve = resolve;
+            pendingEvent.reject = reject;
+        });
+        this.#queue.push(pendingEvent);
+        return pendingEvent;
+    }
+
+    /**
+     * Sends queued events in batches while we stay below the in-flight batch limit.
+     */
+    async #drain() {
+        if (this.#isDraining) {
+            return;
+        }
+        this.#isDraining = true;
+        if (this.#lingerTimer) {
+            clearTimeout(this.#lingerTimer);
+            this.#lingerTimer = null;
+        }
+        try {
+            while (
+                this.#queue.length > 0 &&
+                this.#inFlightBatchCount < this.#maxInFlightBatches
+            ) {
+                let stream;
+                try {
+                    stream = await this.#getStream();
+                } catch (error) {
+                    // Fail all queued events since we can't publish them
+                    const publishError = new Error(
+                        `Failed to open publish stream for topic ${this.#topicName}`,
+                        // @ts-ignore
+                        { cause: error }
+                    );
+                    this.#queue
+                        .splice(0)
+                        .forEach((event) => event.reject(publishError));
+                    this.#logger.error(publishError);
+                    break;
+                }
+                this.#sendBatch(stream, this.#queue.splice(0, this.#maxBatchSize));
+            }
+        } finally {
+            this.#isDraining = false;
+        }
+    }
+
+    /**
+     * Encodes a batch of events and writes it to the publish stream.
+     * @param {ClientDuplexStream} stream publish stream
+     * @param {PendingEvent[]} batch events to publish
+     */
+    #sendBatch(
+        stream: ClientDuplexStream<PublishRequest, PublishResponse>,
+        batch: PendingEvent[]
+    ) {
+        const schema = this.#schema as Schema;
+        const events = [];
+        for (const pendingEvent of batch) {
+            try {
+                const payload = wrapUnionValues(schema.type, pendingEvent.payload);
+                schema.validate?.(payload);
+                events.push({
+                    id: pendingEvent.correlationKey,
+                    schemaId: schema.id,
+                    payload: schema.type.toBuffer(payload)
+                });
+                this.#inFlightEvents.set(pendingEvent.correlationKey, pendingEvent);
+            } catch (error) {
+                pendingEvent.reject(
+                    new Error(
+                        `Failed to encode event with correlation key ${pendingEvent.correlationKey}`,
+                        // @ts-ignore
+                        { cause: error }
+                    )
+                );
+            }
+        }
+        if (events.length === 0) {
+            return;
+        }
+        this.#inFlightBatchCount++;
+        stream.write(
+            PublishRequest.fromPartial({ topicName: this.#topicName, events })
+        );
+        this.#logger.debug(
+            `Sent batch of ${events.length} events to ${this.#topicName} (${this.#inFlightBatchCount} batches in flight)`
+        );
+        this.#resetKeepaliveTimer();
+    }
+
+    /**
+     * Returns the current publish stream or opens a new one.
+     * The topic schema is reloaded whenever a stream is opened.
+     * @returns {Promise<ClientDuplexStream>} publish stream
+     */
+    async #getStream() {
+        if (this.#stream) {
+            return this.#stream;
+        }
+        this.#schema = await this.#schemaLoader();
+        const stream = this.#streamFactory();
+        stream.on('data', (response: PublishResponse) =>
+            this.#handleResponse(response)
+        );
+        stream.on('end', () => {
+            this.#logger.info(`Publish stream for ${this.#topicName} ended`);
+            this.#handleStreamClosed(
+                stream,
+                new Error(
+                    `Publish stream for topic ${this.#topicName} ended before publish result was received`
+                )
+            );
+        });
+        stream.on('error', (error) => {
+            this.#logger.error(
+                `Publish stream error for ${this.#topicName}: ${JSON.stringify(error)}`
+            );
+            this.#handleStreamClosed(stream, error);
+        });
+        this.#stream = stream;
+        this.#logger.info(`Publish stream opened for ${this.#topicName}`);
+        return stream;
+    }
+
+    /**
+     * Resolves the publications matching a publish response.
+     * @param {PublishResponse} response
+     */
+    #handleResponse(response: PublishResponse) {
+        this.#inFlightBatchCount = Math.max(this.#inFlightBatchCount - 1, 0);
+        for (const result of response.results) {
+            const pendingEvent = this.#inFlightEvents.get(result.correlationKey);
+            if (!pendingEvent) {
+                this.#logger.warn(
+                    `Received publish result for unknown correlation key ${result.correlationKey} on ${this.#topicName}`
+                );
+                continue;
+            }
+            this.#inFlightEvents.delete(result.correlationKey);
+            pendingEvent.resolve(parsePublishResult(result));
+        }
+        this.#drain();
+    }
+
+    /**
+     * Handles the closure of the stream.
+     * In-flight events are sent once more on a new stream if the closure is transient, failed otherwise.
+     * Queued events are sent on a new stream.
+     * @param {ClientDuplexStream} stream stream that was closed
+     * @param {Error} error cause of the closure
+     */
+    #handleStreamClosed(
+        stream: ClientDuplexStream<PublishRequest, PublishResponse>,
+        error: Error | ServiceError
+    ) {
+        if (this.#stream !== stream) {
+            return;
+        }
+        this.#stream = null;
+        this.#inFlightBatchCount = 0;
+        if (this.#keepaliveTimer) {
+            clearTimeout(this.#keepaliveTimer);
+            this.#keepaliveTimer = null;
+        }
+        // Streams that end without a status are closed by the server, like other transient failures
+        const isTransient = !('code' in error) || isRetryableStatus(error.code);
+        // In-flight events may have been published: send them only once more and then let the callers decide whether to retry
+        const resentEvents = [];
+        for (const pendingEvent of this.#inFlightEvents.values()) {
+            if (isTransient && !pendingEvent.isResent) {
+                pendingEvent.isResent = true;
+                resentEvents.push(pendingEvent);
+            } else {
+                pendingEvent.reject(error);
+            }
+        }
+        this.#inFlightEvents.clear();
+        if (resentEvents.length > 0) {
+            this.#logger.warn(
+                `Sending ${resentEvents.length} events to ${this.#topicName} again after their publish stream closed`
+            );
+            this.#queue.unshift(...resentEvents);
+        }
+        // Transparently reopen a stream for queued events
+        this.#drain();
+    }
+
+    /**
+     * Publishes a keepalive event if no publish request is sent before the keepalive interval elapses,
+     * so that the server doesn't close the stream.
+     */
+    #resetKeepaliveTimer() {
+        if (this.#keepaliveTimer) {
+            clearTimeout(this.#keepaliveTimer);
+            this.#keepaliveTimer = null;
+        }
+        const keepalivePayload = this.#keepalivePayload;
+        if (!keepalivePayload) {
+            return;
+        }
+        this.#keepaliveTimer = setTimeout(() => {
+            this.#keepaliveTimer = null;
+            if (!this.#stream || this.#isClosed) {
+                return;
+            }
+            this.#logger.debug(
+                `Publishing keepalive event on ${this.#topicName}`
+            );
+            let payload;
+            try {
+                payload = keepalivePayload();
+            } catch (error) {
+                this.#logger.warn(
+                    `Failed to build keepalive event for ${this.#topicName}: ${(error as Error).message}`
+                );
+                return;
+            }
+            const pendingEvent = this.#enqueue(crypto.randomUUID(), payload);
+            pendingEvent.promise
+                .then((result) => {
+                    if (result.error) {
+                        this.#logger.warn(
+                            `Failed to publish keepalive event on ${this.#topicName}: ${result.error.msg}`
+                        );
+                    }
+                })
+                .catch((error) =>
+                    this.#logger.warn(
+                        `Failed to publish keepalive event on ${this.#topicName}: ${error.message}`
+                    )
+                );
+            this.#drain();
+        }, this.#keepaliveIntervalMs);
+    }
+
+    #clearTimers() {
+        if (this.#lingerTimer) {
+            clearTimeout(this.#lingerTimer);
+            this.#lingerTimer = null;
+        }
+        if (this.#keepaliveTimer) {
+            clearTimeout(this.#keepaliveTimer);
+            this.#keepaliveTimer = null;
+        }
+    }
+
+    #closeStream() {
+        const stream = this.#stream;
+        if (stream) {
+            this.#stream = null;
+            stream.end();
+        }
+    }
+}
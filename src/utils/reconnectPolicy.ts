@@ -0,0 +1,78 @@
+import { status as GrpcStatus } from '@grpc/grpc-js';
+
+/**
+ * Policy for reconnecting subscriptions when their gRPC stream ends or fails.
+ * Delays grow exponentially from the initial delay up to the max delay and are randomized with jitter.
+ * @alias ReconnectPolicy
+ * @global
+ */
+export interface ReconnectPolicy {
+    /**
+     * Maximum number of consecutive reconnection attempts (defaults to unlimited)
+     * @type {number | undefined}
+     */
+    maxAttempts?: number;
+    /**
+     * Delay before the first reconnection attempt in milliseconds (defaults to 1 second)
+     * @type {number | undefined}
+     */
+    initialDelayMs?: number;
+    /**
+     * Maximum delay between reconnection attempts in milliseconds (defaults to 1 minute)
+     * @type {number | undefined}
+     */
+    maxDelayMs?: number;
+    /**
+     * Factor applied to the delay after each attempt (defaults to 2)
+     * @type {number | undefined}
+     */
+    multiplier?: number;
+    /**
+     * Ratio of the delay that is randomized, between 0 and 1 (defaults to 0.5)
+     * @type {number | undefined}
+     */
+    jitter?: number;
+}
+
+/**
+ * gRPC status codes that are not worth retrying because a new stream would fail the same way.
+ */
+const NON_RETRYABLE_STATUS_CODES = [
+    GrpcStatus.INVALID_ARGUMENT,
+    GrpcStatus.NOT_FOUND,
+    GrpcStatus.PERMISSION_DENIED,
+    GrpcStatus.UNIMPLEMENTED
+];
+
+/**
+ * Checks whether a stream that closed with a given status should be reconnected.
+ * @param {number} code gRPC status code
+ * @returns {boolean} true if the stream should be reconnected
+ * @protected
+ */
+export function isRetryableStatus(code: number) {
+    return !NON_RETRYABLE_STATUS_CODES.includes(code);
+}
+
+/**
+ * Computes the delay before a reconnection attempt.
+ * @param {ReconnectPolicy} policy reconnect policy
+ * @param {number} attempt zero-based index of the reconnection attempt
+ * @returns {number | null} delay in milliseconds or null if the max number of attempts is reached
+ * @protected
+ */
+export function getReconnectDelay(policy: ReconnectPolicy, attempt: number) {
+    const {
+        maxAttempts = Infinity,
+        initialDelayMs = 1000,
+        maxDelayMs = 60000,
+        multiplier = 2,
+        jitter = 0.5
+    } = policy;
+    if (attempt >= maxAttempts) {
+        return null;
+    }
+    const delay = Math.min(initialDelayMs * multiplier ** attempt, maxDelayMs);
+    const jitterRatio = Math.min(Math.max(jitter, 0), 1);
+    return Math.round(delay * (1 - jitterRatio * Math.random()));
+}
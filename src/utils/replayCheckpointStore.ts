@@ -0,0 +1,32 @@
+/**
+ * Stores the replay ID of the last processed event for each topic and subscriber
+ * so that subscriptions can resume where they left off after a restart.
+ * @alias ReplayCheckpointStore
+ * @global
+ */
+export interface ReplayCheckpointStore {
+    /**
+     * Loads the stored replay ID of a subscriber.
+     * @param {string} topicName name of the topic
+     * @param {string} subscriberName name of the subscriber
+     * @returns {Promise<number | null>} Promise holding the stored replay ID or null if there is none
+     */
+    load(topicName: string, subscriberName: string): Promise<number | null>;
+
+    /**
+     * Stores the replay ID of a subscriber.
+     * @param {string} topicName name of the topic
+     * @param {string} subscriberName name of the subscriber
+     * @param {number} replayId replay ID of the last processed event
+     * @returns {Promise<void>} Promise that resolves once the replay ID is stored
+     */
+    save(topicName: string, subscriberName: string, replayId: number): Promise<void>;
+
+    /**
+     * Deletes the stored replay ID of a subscriber.
+     * @param {string} topicName name of the topic
+     * @param {string} subscriberName name of the subscriber
+     * @returns {Promise<void>} Promise that resolves once the replay ID is deleted
+     */
+    delete(topicName: string, subscriberName: string): Promise<void>;
+}
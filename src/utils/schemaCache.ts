@@ -1,37 +1,191 @@
+import fs from 'fs';
+import path from 'path';
+import type avro from 'avro-js';
+import { parseAvroSchema } from './avroHelper';
+
+/**
+ * Event schema parsed by avro-js
+ * @alias Schema
+ * @global
+ */
+export interface Schema {
+    /**
+     * ID of the schema
+     * @type {string}
+     */
+    id: string;
+    /**
+     * Avro record type of the event payloads
+     * @type {Object}
+     */
+    type: avro.types.RecordType;
+    /**
+     * Raw Avro schema JSON
+     * @type {string}
+     */
+    json: string;
+}
+
+/**
+ * Default maximum number of schemas kept in memory
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Schema IDs that can safely be used as file names
+ */
+const FILE_SAFE_SCHEMA_ID = /^[\w-]+$/;
+
 /**
- * @typedef {Object} Schema
- * @property {string} id
- * @property {Object} type
- * @protected
+ * Schema cache options.
+ * @alias SchemaCacheOptions
+ * @global
  */
+export interface SchemaCacheOptions {
+    /**
+     * Maximum number of schemas kept in memory (defaults to 1000). The least recently used schemas are evicted first.
+     * @type {number | undefined}
+     */
+    maxEntries?: number;
+    /**
+     * Optional time in milliseconds after which cached schemas are fetched again (defaults to no expiry).
+     * Applies to schemas in memory and on disk.
+     * @type {number | undefined}
+     */
+    ttlMs?: number;
+    /**
+     * Optional directory where raw schema JSON is stored in `<schemaId>.json` files.
+     * Schemas stored on disk are decoded without calling the Pub/Sub API, for example after a restart or in offline tests.
+     * @type {string | undefined}
+     */
+    directory?: string;
+}
 
 export default class SchemaCache {
     /**
-     * Map of schemas indexed by ID
-     * @type {Map<string,Schema>}
+     * Map of schemas indexed by ID, from the least to the most recently used
+     * @type {Map<string,{schema: Schema, cachedAt: number}>}
      */
     #schemaChache;
 
-    constructor() {
+    #maxEntries: number;
+    #ttlMs: number;
+    #directory: string | null;
+
+    /**
+     * Builds a new schema cache
+     * @param {SchemaCacheOptions} [options] schema cache options
+     */
+    constructor(options: SchemaCacheOptions = {}) {
+        if (options.maxEntries !== undefined && options.maxEntries < 1) {
+            throw new Error('Expected a schema cache size of at least 1');
+        }
         this.#schemaChache = new Map();
+        this.#maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        this.#ttlMs = options.ttlMs ?? Infinity;
+        this.#directory = options.directory ?? null;
     }
 
     /**
-     * Retrieves a schema based on its ID
+     * Retrieves a schema based on its ID, from memory or from disk
      * @param {string} schemaId
-     * @returns {Schema} schema or undefined if not found
+     * @returns {Promise<Schema | undefined>} Promise holding the schema or undefined if not found
+     */
+    async getFromId(schemaId: string) {
+        const entry = this.#schemaChache.get(schemaId);
+        if (entry) {
+            this.#schemaChache.delete(schemaId);
+            if (Date.now() - entry.cachedAt <= this.#ttlMs) {
+                this.#schemaChache.set(schemaId, entry);
+                return entry.schema;
+            }
+        }
+        const schema = await this.#readFromDisk(schemaId);
+        if (schema) {
+            this.#remember(schema);
+        }
+        return schema;
+    }
+
+    /**
+     * Caches a schema in memory and, if a directory is configured, on disk
+     * @param {Schema} schema
+     * @returns {Promise<void>} Promise that resolves once the schema is stored
+     */
+    // @ts-ignore
+    async set(schema) {
+        this.#remember(schema);
+        await this.#writeToDisk(schema);
+    }
+
+    /**
+     * Stores a schema in memory and evicts the least recently used schemas beyond the size limit
+     * @param {Schema} schema
      */
     // @ts-ignore
-    getFromId(schemaId) {
-        return this.#schemaChache.get(schemaId);
+    #remember(schema) {
+        this.#schemaChache.delete(schema.id);
+        this.#schemaChache.set(schema.id, { schema, cachedAt: Date.now() });
+        while (this.#schemaChache.size > this.#maxEntries) {
+            this.#schemaChache.delete(this.#schemaChache.keys().next().value);
+        }
+    }
+
+    /**
+     * Reads and parses the raw JSON of a schema stored on disk.
+     * The disk store is only an optimization so missing, expired or unreadable files are treated as cache misses.
+     * @param {string} schemaId
+     * @returns {Promise<Schema | undefined>} Promise holding the schema or undefined if not found
+     */
+    async #readFromDisk(schemaId: string) {
+        const filePath = this.#getFilePath(schemaId);
+        if (!filePath) {
+            return undefined;
+        }
+        try {
+            const stats = await fs.promises.stat(filePath);
+            if (Date.now() - stats.mtimeMs > this.#ttlMs) {
+                return undefined;
+            }
+            const json = await fs.promises.readFile(filePath, 'utf8');
+            return { id: schemaId, type: parseAvroSchema(json), json };
+        } catch (error) {
+            return undefined;
+        }
     }
 
     /**
-     * Caches a schema
+     * Writes the raw JSON of a schema to disk.
+     * The file is written to a temporary file then renamed so that readers never see partial files.
      * @param {Schema} schema
+     * @returns {Promise<void>} Promise that resolves once the file is written
      */
     // @ts-ignore
-    set(schema) {
-        this.#schemaChache.set(schema.id, schema);
+    async #writeToDisk(schema) {
+        const filePath = this.#getFilePath(schema.id);
+        if (!filePath || !schema.json) {
+            return;
+        }
+        const tempFilePath = `${filePath}.${process.pid}.tmp`;
+        try {
+            await fs.promises.mkdir(this.#directory as string, { recursive: true });
+            await fs.promises.writeFile(tempFilePath, schema.json, 'utf8');
+            await fs.promises.rename(tempFilePath, filePath);
+        } catch (error) {
+            // Events can still be decoded with the schema in memory
+            await fs.promises.rm(tempFilePath, { force: true }).catch(() => {});
+        }
+    }
+
+    /**
+     * Returns the path of the file that stores a schema
+     * @param {string} schemaId
+     * @returns {string | null} file path or null if there's no disk store or the ID can't be used as a file name
+     */
+    #getFilePath(schemaId: string) {
+        if (!this.#directory || !FILE_SAFE_SCHEMA_ID.test(schemaId)) {
+            return null;
+        }
+        return path.join(this.#directory, `${schemaId}.json`);
     }
 }
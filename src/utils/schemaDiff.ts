@@ -0,0 +1,107 @@
+import avro from 'avro-js';
+
+/**
+ * Field that was added, removed or retyped between two versions of a schema.
+ * @alias SchemaFieldChange
+ * @global
+ */
+export interface SchemaFieldChange {
+    /**
+     * Path of the field. Fields of nested records are separated with dots, for example `ChangeEventHeader.changedFields`.
+     * @type {string}
+     */
+    path: string;
+    /**
+     * Avro type of the field in the new schema, if the field exists in the new schema
+     * @type {Object | string | undefined}
+     */
+    type?: unknown;
+    /**
+     * Avro type of the field in the previous schema, if the field exists in the previous schema
+     * @type {Object | string | undefined}
+     */
+    previousType?: unknown;
+}
+
+/**
+ * Field-level differences between two versions of a schema.
+ * @alias SchemaDiff
+ * @global
+ */
+export interface SchemaDiff {
+    added: SchemaFieldChange[];
+    removed: SchemaFieldChange[];
+    retyped: SchemaFieldChange[];
+}
+
+/**
+ * Compares the fields of two Avro record types.
+ * Fields of nested records are compared one by one rather than reported as a retyped record.
+ * @param {Object} previousType previous Avro record type
+ * @param {Object} type new Avro record type
+ * @returns {SchemaDiff} added, removed and retyped fields
+ */
+export function diffSchemas(
+    previousType: avro.types.RecordType,
+    type: avro.types.RecordType
+): SchemaDiff {
+    const diff: SchemaDiff = { added: [], removed: [], retyped: [] };
+    diffRecordFields(previousType, type, '', diff);
+    return diff;
+}
+
+/**
+ * Compares the fields of two record types and adds the differences to a diff.
+ * @param {Object} previousType previous Avro record type
+ * @param {Object} type new Avro record type
+ * @param {string} pathPrefix path of the record followed by a dot or an empty string for the top-level record
+ * @param {SchemaDiff} diff diff to complete
+ */
+function diffRecordFields(
+    previousType: avro.types.RecordType,
+    type: avro.types.RecordType,
+    pathPrefix: string,
+    diff: SchemaDiff
+) {
+    const previousFields = new Map(
+        previousType.getFields().map((field) => [field.getName(), field.getType()])
+    );
+    const fields = new Map(
+        type.getFields().map((field) => [field.getName(), field.getType()])
+    );
+    for (const [name, fieldType] of fields) {
+        const path = `${pathPrefix}${name}`;
+        const previousFieldType = previousFields.get(name);
+        if (!previousFieldType) {
+            diff.added.push({ path, type: toSchema(fieldType) });
+        } else if (
+            previousFieldType instanceof avro.types.RecordType &&
+            fieldType instanceof avro.types.RecordType
+        ) {
+            diffRecordFields(previousFieldType, fieldType, `${path}.`, diff);
+        } else if (previousFieldType.getSchema() !== fieldType.getSchema()) {
+            diff.retyped.push({
+                path,
+                type: toSchema(fieldType),
+                previousType: toSchema(previousFieldType)
+            });
+        }
+    }
+    for (const [name, previousFieldType] of previousFields) {
+        if (!fields.has(name)) {
+            diff.removed.push({
+                path: `${pathPrefix}${name}`,
+                previousType: toSchema(previousFieldType)
+            });
+        }
+    }
+}
+
+/**
+ * Returns the JSON definition of an Avro type
+ * @param {Object} type Avro type
+ * @returns {Object | string} Avro schema of the type
+ */
+function toSchema(type: avro.Type) {
+    return JSON.parse(type.getSchema());
+}
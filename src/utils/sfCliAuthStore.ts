@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Keychain entry that holds the key of the Salesforce CLI auth files
+ */
+const KEYCHAIN_SERVICE = 'sfdx';
+const KEYCHAIN_ACCOUNT = 'local';
+
+/**
+ * Encrypted values are formatted as `${iv}${encryptedValue}:${authTag}` in hexadecimal
+ */
+const TAG_DELIMITER = ':';
+
+/**
+ * Org authorization stored by the Salesforce CLI
+ * @alias SfCliAuthInfo
+ * @global
+ */
+export interface SfCliAuthInfo {
+    username: string;
+    accessToken: string;
+    refreshToken?: string;
+    instanceUrl: string;
+    loginUrl: string;
+    orgId: string;
+    clientId?: string;
+    clientSecret?: string;
+}
+
+/**
+ * Reads the org authorizations of the `sf`/`sfdx` CLI from the local auth store (`~/.sfdx`).
+ * Secrets are decrypted with the key that the CLI keeps in the OS keychain or in its generic keychain file.
+ * @alias SfCliAuthStore
+ * @global
+ */
+export default class SfCliAuthStore {
+    #directory: string;
+    #key: Promise<string> | null;
+
+    /**
+     * Builds a new auth store reader
+     * @param {string} [directory] path of the CLI state directory (defaults to `~/.sfdx`)
+     */
+    constructor(directory = path.join(os.homedir(), '.sfdx')) {
+        this.#directory = directory;
+        this.#key = null;
+    }
+
+    /**
+     * Reads and decrypts the authorization of an org.
+     * @param {string} usernameOrAlias username or alias of the org
+     * @returns {Promise<SfCliAuthInfo>} Promise holding the org authorization
+     */
+    async getAuthInfo(usernameOrAlias: string): Promise<SfCliAuthInfo> {
+        const username = await this.#resolveAlias(usernameOrAlias);
+        const filePath = path.join(this.#directory, `${username}.json`);
+        let authFile;
+        try {
+            authFile = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+        } catch (error) {
+            throw new Error(
+                `Failed to read Salesforce CLI auth file for ${usernameOrAlias}. Log in with "sf org login web" first.`,
+                // @ts-ignore
+                { cause: error }
+            );
+        }
+        return {
+            username: authFile.username,
+            accessToken: await this.#decrypt(authFile.accessToken),
+            refreshToken: authFile.refreshToken
+                ? await this.#decrypt(authFile.refreshToken)
+                : undefined,
+            instanceUrl: authFile.instanceUrl,
+            loginUrl: authFile.loginUrl,
+            orgId: authFile.orgId,
+            clientId: authFile.clientId,
+            clientSecret: authFile.clientSecret
+                ? await this.#decrypt(authFile.clientSecret)
+                : undefined
+        };
+    }
+
+    /**
+     * Looks up the username of an alias. Values that aren't aliases are returned as is.
+     * @param {string} usernameOrAlias username or alias of the org
+     * @returns {Promise<string>} Promise holding the username
+     */
+    async #resolveAlias(usernameOrAlias: string) {
+        try {
+            const aliases = JSON.parse(
+                await fs.promises.readFile(
+                    path.join(this.#directory, 'alias.json'),
+                    'utf8'
+                )
+            );
+            return aliases.orgs?.[usernameOrAlias] ?? usernameOrAlias;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return usernameOrAlias;
+            }
+            throw new Error(
+                'Failed to read Salesforce CLI aliases',
+                // @ts-ignore
+                { cause: error }
+            );
+        }
+    }
+
+    /**
+     * Decrypts a value of an auth file with AES-256-GCM.
+     * The CLI uses 32-character keys as is or, with its newer format, 64-character keys in hexadecimal.
+     * @param {string} value encrypted value
+     * @returns {Promise<string>} Promise holding the decrypted value
+     */
+    async #decrypt(value: string) {
+        const key = await this.#getKey();
+        const [data, authTag] = value.split(TAG_DELIMITER);
+        if (!authTag) {
+            throw new Error('Unexpected format for encrypted Salesforce CLI value');
+        }
+        const isHexKey = key.length === 64;
+        const ivLength = isHexKey ? 24 : 12;
+        const iv = data.substring(0, ivLength);
+        try {
+            const decipher = crypto.createDecipheriv(
+                'aes-256-gcm',
+                isHexKey ? Buffer.from(key, 'hex') : Buffer.from(key, 'utf8'),
+                isHexKey ? Buffer.from(iv, 'hex') : Buffer.from(iv, 'utf8')
+            );
+            decipher.setAuthTag(Buffer.from(authTag, 'hex'));
+            return (
+                decipher.update(data.substring(ivLength), 'hex', 'utf8') +
+                decipher.final('utf8')
+            );
+        } catch (error) {
+            throw new Error(
+                'Failed to decrypt Salesforce CLI auth file',
+                // @ts-ignore
+                { cause: error }
+            );
+        }
+    }
+
+    /**
+     * Loads the encryption key of the CLI once.
+     * @returns {Promise<string>} Promise holding the key
+     */
+    #getKey() {
+        if (!this.#key) {
+            this.#key = this.#loadKey();
+            this.#key.catch(() => {
+                this.#key = null;
+            });
+        }
+        return this.#key;
+    }
+
+    /**
+     * Reads the encryption key from the generic keychain file or from the OS keychain.
+     * @returns {Promise<string>} Promise holding the key
+     */
+    async #loadKey() {
+        try {
+            const keyFile = JSON.parse(
+                await fs.promises.readFile(
+                    path.join(this.#directory, 'key.json'),
+                    'utf8'
+                )
+            );
+            return keyFile.key as string;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw new Error(
+                    'Failed to read Salesforce CLI key file',
+                    // @ts-ignore
+                    { cause: error }
+                );
+            }
+        }
+        try {
+            if (process.platform === 'darwin') {
+                return await execFileAsync('security', [
+                    'find-generic-password',
+                    '-a',
+                    KEYCHAIN_ACCOUNT,
+                    '-s',
+                    KEYCHAIN_SERVICE,
+                    '-w'
+                ]);
+            }
+            return await execFileAsync('secret-tool', [
+                'lookup',
+                'user',
+                KEYCHAIN_ACCOUNT,
+                'domain',
+                KEYCHAIN_SERVICE
+            ]);
+        } catch (error) {
+            throw new Error(
+                'Failed to read Salesforce CLI key from the OS keychain',
+                // @ts-ignore
+                { cause: error }
+            );
+        }
+    }
+}
+
+/**
+ * Runs a command and returns its trimmed output
+ * @param {string} file command
+ * @param {string[]} args command arguments
+ * @returns {Promise<string>} Promise holding the output of the command
+ */
+function execFileAsync(file: string, args: string[]) {
+    return new Promise<string>((resolve, reject) => {
+        execFile(file, args, (error, stdout) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(stdout.trim());
+            }
+        });
+    });
+}
@@ -0,0 +1,74 @@
+import Database from 'better-sqlite3';
+import { ReplayCheckpointStore } from './replayCheckpointStore';
+
+/**
+ * Replay checkpoint store that keeps checkpoints in an embedded SQLite database.
+ * @alias SqliteCheckpointStore
+ * @global
+ */
+export default class SqliteCheckpointStore implements ReplayCheckpointStore {
+    #db: Database.Database;
+    #loadStatement: Database.Statement;
+    #saveStatement: Database.Statement;
+    #deleteStatement: Database.Statement;
+
+    /**
+     * Builds a new SQLite checkpoint store
+     * @param {string} filePath path of the database file. The database is created if it doesn't exist.
+     */
+    constructor(filePath: string) {
+        try {
+            this.#db = new Database(filePath);
+            this.#db.pragma('journal_mode = WAL');
+            this.#db.exec(
+                `CREATE TABLE IF NOT EXISTS replay_checkpoints (
+                    topic_name TEXT NOT NULL,
+                    subscriber_name TEXT NOT NULL,
+                    replay_id INTEGER NOT NULL,
+                    updated_at INTEGER NOT NULL,
+                    PRIMARY KEY (topic_name, subscriber_name)
+                )`
+            );
+        } catch (error) {
+            throw new Error(
+                `Failed to open replay checkpoint database ${filePath}`,
+                // @ts-ignore
+                { cause: error }
+            );
+        }
+        this.#loadStatement = this.#db.prepare(
+            'SELECT replay_id FROM replay_checkpoints WHERE topic_name = ? AND subscriber_name = ?'
+        );
+        this.#saveStatement = this.#db.prepare(
+            `INSERT INTO replay_checkpoints (topic_name, subscriber_name, replay_id, updated_at)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT (topic_name, subscriber_name)
+            DO UPDATE SET replay_id = excluded.replay_id, updated_at = excluded.updated_at`
+        );
+        this.#deleteStatement = this.#db.prepare(
+            'DELETE FROM replay_checkpoints WHERE topic_name = ? AND subscriber_name = ?'
+        );
+    }
+
+    async load(topicName: string, subscriberName: string) {
+        const row = this.#loadStatement.get(topicName, subscriberName) as
+            | { replay_id: number }
+            | undefined;
+        return row ? row.replay_id : null;
+    }
+
+    async save(topicName: string, subscriberName: string, replayId: number) {
+        this.#saveStatement.run(topicName, subscriberName, replayId, Date.now());
+    }
+
+    async delete(topicName: string, subscriberName: string) {
+        this.#deleteStatement.run(topicName, subscriberName);
+    }
+
+    /**
+     * Closes the database.
+     */
+    close() {
+        this.#db.close();
+    }
+}
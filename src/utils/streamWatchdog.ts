@@ -0,0 +1,73 @@
+/**
+ * The server sends a keepalive message at least every 270 seconds when there are no events.
+ * The default deadline leaves some margin for network latency.
+ */
+const DEFAULT_WATCHDOG_TIMEOUT_MS = 300000;
+
+/**
+ * Keepalive watchdog options.
+ * @alias WatchdogOptions
+ * @global
+ */
+export interface WatchdogOptions {
+    /**
+     * Maximum time without events or keepalive messages before the stream is considered stalled in milliseconds (defaults to 5 minutes)
+     * @type {number | undefined}
+     */
+    timeoutMs?: number;
+    /**
+     * If true, stalled streams are torn down and re-established after the replay ID of the last received event
+     * @type {boolean | undefined}
+     */
+    reconnect?: boolean;
+}
+
+/**
+ * Detects streams that silently stop receiving messages.
+ * The watchdog fires once if it isn't reset before the deadline.
+ * @protected
+ */
+export default class StreamWatchdog {
+    #timeoutMs: number;
+    #onStall: (timeoutMs: number) => void;
+    #timer: NodeJS.Timeout | null;
+
+    /**
+     * Builds a new watchdog
+     * @param {WatchdogOptions} options watchdog options
+     * @param {Function} onStall called with the timeout when the deadline passes
+     */
+    constructor(options: WatchdogOptions, onStall: (timeoutMs: number) => void) {
+        this.#timeoutMs = options.timeoutMs ?? DEFAULT_WATCHDOG_TIMEOUT_MS;
+        if (typeof this.#timeoutMs !== 'number' || this.#timeoutMs <= 0) {
+            throw new Error(
+                `Expected a positive watchdog timeout but got ${this.#timeoutMs}`
+            );
+        }
+        this.#onStall = onStall;
+        this.#timer = null;
+    }
+
+    /**
+     * Starts or restarts the countdown. Call it whenever the stream receives a message.
+     */
+    reset() {
+        this.stop();
+        this.#timer = setTimeout(() => {
+            this.#timer = null;
+            this.#onStall(this.#timeoutMs);
+        }, this.#timeoutMs);
+        // The watchdog alone shouldn't keep the process running
+        this.#timer.unref();
+    }
+
+    /**
+     * Stops the countdown.
+     */
+    stop() {
+        if (this.#timer) {
+            clearTimeout(this.#timer);
+            this.#timer = null;
+        }
+    }
+}
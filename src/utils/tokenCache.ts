@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { ConnectionMetadata } from './authProvider';
+import { Logger } from './clientConfiguration';
+
+/**
+ * Token cache options.
+ * @alias TokenCacheOptions
+ * @global
+ */
+export interface TokenCacheOptions {
+    /**
+     * Path of the cache file. The file is created on the first save.
+     * @type {string}
+     */
+    filePath: string;
+    /**
+     * Secret from which the encryption key of the cache file is derived
+     * @type {string}
+     */
+    secret: string;
+    /**
+     * Maximum age of cached credentials in milliseconds (defaults to 2 hours, the default Salesforce session timeout).
+     * Set it to the session timeout of the org if it differs.
+     * Credentials that are rejected by the Pub/Sub API are discarded regardless of their age.
+     * @type {number | undefined}
+     */
+    maxAgeMs?: number;
+}
+
+/**
+ * Default maximum age of cached credentials: the default session timeout of Salesforce orgs
+ */
+const DEFAULT_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Cached credentials indexed by cache key
+ * @private
+ */
+type CachedCredentials = Record<
+    string,
+    { credentials: ConnectionMetadata; cachedAt: number }
+>;
+
+/**
+ * Content of the encrypted cache file
+ * @private
+ */
+interface EncryptedFile {
+    version: 1;
+    salt: string;
+    iv: string;
+    authTag: string;
+    data: string;
+}
+
+/**
+ * Keeps access tokens in an encrypted file so that process restarts reuse them instead of logging in again.
+ * The file is encrypted with AES-256-GCM. A file that can't be read or decrypted, for example because it's corrupt or the secret changed,
+ * is treated as empty and overwritten on the next save.
+ * @alias TokenCache
+ * @global
+ */
+export default class TokenCache {
+    #filePath: string;
+    #secret: string;
+    #maxAgeMs: number;
+    #pendingWrite: Promise<void>;
+    #logger: Logger;
+
+    /**
+     * Builds a new token cache
+     * @param {TokenCacheOptions} options token cache options
+     * @param {Logger} [logger] logger for cache files that can't be read, defaults to the console
+     */
+    constructor(options: TokenCacheOptions, logger: Logger = console) {
+        if (!options.secret) {
+            throw new Error('Expected a secret for the token cache');
+        }
+        this.#filePath = options.filePath;
+        this.#secret = options.secret;
+        this.#maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+        this.#pendingWrite = Promise.resolve();
+        this.#logger = logger;
+    }
+
+    /**
+     * Loads cached credentials.
+     * @param {string} cacheKey key that identifies the credentials
+     * @returns {Promise<ConnectionMetadata | null>} Promise holding the credentials or null if there are none or they're too old
+     */
+    async load(cacheKey: string) {
+        await this.#pendingWrite.catch(() => {});
+        const entry = (await this.#read())[cacheKey];
+        if (!entry || Date.now() - entry.cachedAt > this.#maxAgeMs) {
+            return null;
+        }
+        return entry.credentials;
+    }
+
+    /**
+     * Stores credentials.
+     * @param {string} cacheKey key that identifies the credentials
+     * @param {ConnectionMetadata} credentials credentials to store
+     * @returns {Promise<void>} Promise that resolves once the credentials are stored
+     */
+    save(cacheKey: string, credentials: ConnectionMetadata) {
+        return this.#update((cache) => {
+            cache[cacheKey] = { credentials, cachedAt: Date.now() };
+        });
+    }
+
+    /**
+     * Deletes cached credentials.
+     * @param {string} cacheKey key that identifies the credentials
+     * @returns {Promise<void>} Promise that resolves once the credentials are deleted
+     */
+    delete(cacheKey: string) {
+        return this.#update((cache) => {
+            delete cache[cacheKey];
+        });
+    }
+
+    /**
+     * Reads and decrypts the cache file.
+     * The cache is only an optimization so a missing, unreadable, corrupt or undecipherable file is treated as empty.
+     * @returns {Promise<CachedCredentials>} cached credentials
+     */
+    async #read(): Promise<CachedCredentials> {
+        try {
+            const file: EncryptedFile = JSON.parse(
+                await fs.promises.readFile(this.#filePath, 'utf8')
+            );
+            const key = await this.#deriveKey(Buffer.from(file.salt, 'base64'));
+            const decipher = crypto.createDecipheriv(
+                'aes-256-gcm',
+                key,
+                Buffer.from(file.iv, 'base64')
+            );
+            decipher.setAuthTag(Buffer.from(file.authTag, 'base64'));
+            const data = Buffer.concat([
+                decipher.update(Buffer.from(file.data, 'base64')),
+                decipher.final()
+            ]);
+            return JSON.parse(data.toString('utf8'));
+        } catch (error) {
+            // Start over with an empty cache rather than failing to authenticate: the next save overwrites the file
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                this.#logger.warn(
+                    `Failed to read token cache ${this.#filePath}, starting with an empty cache`,
+                    error
+                );
+            }
+            return {};
+        }
+    }
+
+    /**
+     * Applies a change to the cached credentials and writes the encrypted cache file.
+     * Updates are chained so that concurrent changes aren't lost.
+     * The file is written to a temporary file then renamed over the previous version.
+     * @param {Function} change function that modifies the cached credentials
+     * @returns {Promise<void>} Promise that resolves once the file is written
+     */
+    #update(change: (cache: CachedCredentials) => void) {
+        const update = async () => {
+            const cache = await this.#read();
+            change(cache);
+            const salt = crypto.randomBytes(16);
+            const iv = crypto.randomBytes(12);
+            const key = await this.#deriveKey(salt);
+            const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+            const data = Buffer.concat([
+                cipher.update(JSON.stringify(cache), 'utf8'),
+                cipher.final()
+            ]);
+            const file: EncryptedFile = {
+                version: 1,
+                salt: salt.toString('base64'),
+                iv: iv.toString('base64'),
+                authTag: cipher.getAuthTag().toString('base64'),
+                data: data.toString('base64')
+            };
+            const tempFilePath = `${this.#filePath}.${process.pid}.tmp`;
+            try {
+                await fs.promises.writeFile(tempFilePath, JSON.stringify(file), {
+                    encoding: 'utf8',
+                    mode: 0o600
+                });
+                await fs.promises.rename(tempFilePath, this.#filePath);
+            } catch (error) {
+                await fs.promises.rm(tempFilePath, { force: true }).catch(() => {});
+                throw new Error(
+                    `Failed to write token cache to ${this.#filePath}`,
+                    // @ts-ignore
+                    { cause: error }
+                );
+            }
+        };
+        this.#pendingWrite = this.#pendingWrite.catch(() => {}).then(update);
+        return this.#pendingWrite;
+    }
+
+    /**
+     * Derives the encryption key from the secret.
+     * @param {Buffer} salt random salt stored with the encrypted data
+     * @returns {Promise<Buffer>} 256-bit key
+     */
+    #deriveKey(salt: Buffer) {
+        return new Promise<Buffer>((resolve, reject) => {
+            crypto.scrypt(this.#secret, salt, 32, (error, key) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(key);
+                }
+            });
+        });
+    }
+}
@@ -0,0 +1,340 @@
+import type { TopicSchema } from '../client';
+
+/**
+ * Avro schema in its JSON form: a type name, a union of schemas or a type definition
+ * @private
+ */
+type AvroSchemaJson =
+    | string
+    | AvroSchemaJson[]
+    | AvroPrimitiveSchemaJson
+    | AvroRecordSchemaJson
+    | AvroEnumSchemaJson
+    | AvroArraySchemaJson
+    | AvroMapSchemaJson
+    | AvroFixedSchemaJson;
+
+/**
+ * Primitive type written as an object, with an optional logical type
+ * @private
+ */
+interface AvroPrimitiveSchemaJson {
+    type: 'null' | 'boolean' | 'int' | 'long' | 'float' | 'double' | 'bytes' | 'string';
+    logicalType?: string;
+}
+
+/**
+ * Attributes shared by named types
+ * @private
+ */
+interface AvroNamedSchemaJson {
+    name: string;
+    namespace?: string;
+    doc?: string;
+}
+
+/**
+ * Record type
+ * @private
+ */
+interface AvroRecordSchemaJson extends AvroNamedSchemaJson {
+    type: 'record' | 'error';
+    fields: { name: string; type: AvroSchemaJson; doc?: string }[];
+}
+
+/**
+ * Enum type
+ * @private
+ */
+interface AvroEnumSchemaJson extends AvroNamedSchemaJson {
+    type: 'enum';
+    symbols: string[];
+}
+
+/**
+ * Fixed type
+ * @private
+ */
+interface AvroFixedSchemaJson extends AvroNamedSchemaJson {
+    type: 'fixed';
+    size: number;
+}
+
+/**
+ * Array type
+ * @private
+ */
+interface AvroArraySchemaJson {
+    type: 'array';
+    items: AvroSchemaJson;
+}
+
+/**
+ * Map type
+ * @private
+ */
+interface AvroMapSchemaJson {
+    type: 'map';
+    values: AvroSchemaJson;
+}
+
+/**
+ * Fields of the CDC header whose field bitmaps are replaced with field names when events are parsed
+ */
+const CHANGE_EVENT_HEADER_FIELD_LISTS: Record<string, string> = {
+    changedFields: 'Names of the fields that were changed',
+    nulledFields: 'Names of the fields that were set to null',
+    diffFields: 'Names of the fields whose value is sent as a diff'
+};
+
+/**
+ * Generates TypeScript interfaces for the payloads of topics from their Avro schemas.
+ * The interfaces describe payloads as returned by the client: unions are unwrapped, `long` values are numbers
+ * or bigints depending on their size and the field bitmaps of the CDC `ChangeEventHeader` are lists of field names.
+ * A `TopicPayloads` interface maps each topic name to its payload type.
+ * @alias TypeGenerator
+ * @global
+ */
+export default class TypeGenerator {
+    /**
+     * TypeScript declarations indexed by type name, in declaration order
+     * @type {Map<string,string>}
+     */
+    #declarations: Map<string, string>;
+
+    /**
+     * Payload type names indexed by topic name
+     * @type {Map<string,string>}
+     */
+    #topicPayloadTypes: Map<string, string>;
+
+    constructor() {
+        this.#declarations = new Map();
+        this.#topicPayloadTypes = new Map();
+    }
+
+    /**
+     * Adds the payload type of a topic.
+     * Named types shared by several topics are only declared once if they're identical.
+     * @param {TopicSchema} topicSchema topic name and Avro schema of its events
+     * @returns {string} name of the payload type
+     */
+    addTopic(topicSchema: TopicSchema) {
+        const schema = JSON.parse(topicSchema.schemaJson);
+        if (schema.type !== 'record') {
+            throw new Error(
+                `Expected a record schema for topic ${topicSchema.topicName}, got ${schema.type}`
+            );
+        }
+        const payloadType = this.#toTsType(schema, '', new Map(), {
+            topicName: topicSchema.topicName,
+            schemaId: topicSchema.schemaId
+        });
+        this.#topicPayloadTypes.set(topicSchema.topicName, payloadType);
+        return payloadType;
+    }
+
+    /**
+     * Renders the TypeScript source of the declarations.
+     * @returns {string} TypeScript source
+     */
+    generate() {
+        const topicEntries = [...this.#topicPayloadTypes.entries()]
+            .map(
+                ([topicName, typeName]) =>
+                    `    ${JSON.stringify(topicName)}: ${typeName};`
+            )
+            .join('\n');
+        return [
+            '// Generated from the Avro schemas of Pub/Sub API topics. Do not edit: run `npm run codegen` instead.',
+            '',
+            ...this.#declarations.values(),
+            '/**\n * Payload types indexed by topic name\n */',
+            `export interface TopicPayloads {\n${topicEntries}\n}`,
+            ''
+        ].join('\n');
+    }
+
+    /**
+     * Converts an Avro type into a TypeScript type, declaring named types along the way.
+     * @param {AvroSchemaJson} schema Avro type
+     * @param {string} namespace namespace of the enclosing named type
+     * @param {Map<string,string>} namedTypes TypeScript names of the named types of the schema indexed by full Avro name
+     * @param {Object} [topic] topic of the payload record, for the top-level record
+     * @returns {string} TypeScript type
+     */
+    #toTsType(
+        schema: AvroSchemaJson,
+        namespace: string,
+        namedTypes: Map<string, string>,
+        topic?: { topicName: string; schemaId: string }
+    ): string {
+        if (Array.isArray(schema)) {
+            const branches = [
+                ...new Set(
+                    schema.map((branch) =>
+                        this.#toTsType(branch, namespace, namedTypes)
+                    )
+                )
+            ];
+            return branches.join(' | ');
+        }
+        if (typeof schema === 'string') {
+            switch (schema) {
+                case 'null':
+                    return 'null';
+                case 'boolean':
+                    return 'boolean';
+                case 'int':
+                case 'float':
+                case 'double':
+                    return 'number';
+                case 'long':
+                    // Matches CustomLongAvroType: values beyond the safe integer range are bigints
+                    return 'number | bigint';
+                case 'string':
+                    return 'string';
+                case 'bytes':
+                    return 'Buffer';
+                default: {
+                    const typeName = namedTypes.get(
+                        getFullName(schema, namespace)
+                    );
+                    if (!typeName) {
+                        throw new Error(`Unknown Avro type ${schema}`);
+                    }
+                    return typeName;
+                }
+            }
+        }
+        switch (schema.type) {
+            case 'array':
+                return `Array<${this.#toTsType(schema.items, namespace, namedTypes)}>`;
+            case 'map':
+                return `Record<string, ${this.#toTsType(schema.values, namespace, namedTypes)}>`;
+            case 'fixed':
+                namedTypes.set(getFullName(schema.name, namespace, schema.namespace), 'Buffer');
+                return 'Buffer';
+            case 'enum':
+                return this.#declareNamedType(
+                    schema,
+                    namespace,
+                    namedTypes,
+                    (typeName) =>
+                        `${formatDoc(schema.doc, '')}export type ${typeName} = ${schema.symbols
+                            .map((symbol) => JSON.stringify(symbol))
+                            .join(' | ')};\n`
+                );
+            case 'record':
+            case 'error':
+                return this.#declareNamedType(
+                    schema,
+                    namespace,
+                    namedTypes,
+                    (typeName, recordNamespace) => {
+                        const isChangeEventHeader =
+                            schema.name === 'ChangeEventHeader';
+                        const fields = schema.fields
+                            .map((field) => {
+                                const fieldListDoc = isChangeEventHeader
+                                    ? CHANGE_EVENT_HEADER_FIELD_LISTS[field.name]
+                                    : undefined;
+                                if (fieldListDoc) {
+                                    return `${formatDoc(fieldListDoc, '    ')}    ${field.name}: string[];`;
+                                }
+                                const fieldType = this.#toTsType(
+                                    field.type,
+                                    recordNamespace,
+                                    namedTypes
+                                );
+                                return `${formatDoc(field.doc, '    ')}    ${field.name}: ${fieldType};`;
+                            })
+                            .join('\n');
+                        const doc = topic
+                            ? `Payload of ${topic.topicName} (schema ID ${topic.schemaId})`
+                            : schema.doc;
+                        return `${formatDoc(doc, '')}export interface ${typeName} {\n${fields}\n}\n`;
+                    }
+                );
+            default:
+                // Primitive types can also be written as objects, with an optional logical type
+                return this.#toTsType(schema.type, namespace, namedTypes);
+        }
+    }
+
+    /**
+     * Declares a named Avro type.
+     * Types with the same name get a numbered suffix unless their declarations are identical.
+     * @param {AvroRecordSchemaJson | AvroEnumSchemaJson} schema named Avro type
+     * @param {string} namespace namespace of the enclosing named type
+     * @param {Map<string,string>} namedTypes TypeScript names of the named types of the schema indexed by full Avro name
+     * @param {Function} declare renders the declaration of the type given its TypeScript name and its namespace
+     * @returns {string} TypeScript name of the type
+     */
+    #declareNamedType(
+        schema: AvroRecordSchemaJson | AvroEnumSchemaJson,
+        namespace: string,
+        namedTypes: Map<string, string>,
+        declare: (typeName: string, typeNamespace: string) => string
+    ) {
+        const fullName = getFullName(schema.name, namespace, schema.namespace);
+        const typeNamespace = fullName.includes('.')
+            ? fullName.substring(0, fullName.lastIndexOf('.'))
+            : '';
+        const baseName = toIdentifier(fullName.substring(fullName.lastIndexOf('.') + 1));
+        // Register the name first so that recursive types can refer to themselves
+        let typeName = baseName;
+        namedTypes.set(fullName, typeName);
+        let declaration = declare(typeName, typeNamespace);
+        for (
+            let suffix = 2;
+            this.#declarations.has(typeName) &&
+            this.#declarations.get(typeName) !== declaration;
+            suffix++
+        ) {
+            typeName = `${baseName}_${suffix}`;
+            namedTypes.set(fullName, typeName);
+            declaration = declare(typeName, typeNamespace);
+        }
+        this.#declarations.set(typeName, declaration);
+        return typeName;
+    }
+}
+
+/**
+ * Resolves the full name of an Avro named type
+ * @param {string} name name of the type, possibly including a namespace
+ * @param {string} enclosingNamespace namespace of the enclosing named type
+ * @param {string} [namespace] namespace attribute of the type
+ * @returns {string} full name of the type
+ */
+function getFullName(name: string, enclosingNamespace: string, namespace?: string) {
+    if (name.includes('.')) {
+        return name;
+    }
+    const resolvedNamespace = namespace ?? enclosingNamespace;
+    return resolvedNamespace ? `${resolvedNamespace}.${name}` : name;
+}
+
+/**
+ * Converts an Avro name into a valid TypeScript identifier
+ * @param {string} name Avro name
+ * @returns {string} TypeScript identifier
+ */
+function toIdentifier(name: string) {
+    const identifier = name.replace(/[^A-Za-z0-9_$]/g, '_');
+    return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Formats a doc comment
+ * @param {string | undefined} doc documentation
+ * @param {string} indent indentation of the comment
+ * @returns {string} doc comment followed by a new line or an empty string if there's no documentation
+ */
+function formatDoc(doc: string | undefined, indent: string) {
+    if (!doc) {
+        return '';
+    }
+    return `${indent}/**\n${indent} * ${doc.replace(/\*\//g, '*\\/')}\n${indent} */\n`;
+}
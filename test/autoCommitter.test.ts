@@ -0,0 +1,129 @@
+import AutoCommitter, { CommitPolicy } from '../src/utils/autoCommitter';
+
+const silentLogger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+};
+
+/**
+ * Builds an auto committer whose commits are recorded and confirmed right away
+ */
+function createAutoCommitter(
+    policy: CommitPolicy,
+    commit = jest.fn(async (replayId: number) => replayId)
+) {
+    const onError = jest.fn();
+    const autoCommitter = new AutoCommitter(policy, commit, onError, silentLogger);
+    return { autoCommitter, commit, onError };
+}
+
+describe('AutoCommitter', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('rejects invalid policies', () => {
+        expect(() => createAutoCommitter({ strategy: 'count', count: 0 })).toThrow(
+            'Expected an integer greater than 0 for commit count but got 0'
+        );
+        expect(() => createAutoCommitter({ strategy: 'interval', intervalMs: 0 })).toThrow(
+            'Expected a positive commit interval but got 0'
+        );
+    });
+
+    it('commits every count events with the count policy', () => {
+        const { autoCommitter, commit } = createAutoCommitter({ strategy: 'count', count: 3 });
+        [1, 2, 3, 4, 5].forEach((replayId) => autoCommitter.onEventProcessed(replayId));
+
+        expect(commit.mock.calls).toEqual([[3]]);
+        autoCommitter.onEventProcessed(6);
+        expect(commit.mock.calls).toEqual([[3], [6]]);
+        expect(autoCommitter.isAwaitingListeners()).toBe(false);
+    });
+
+    it('commits the last processed event every intervalMs with the interval policy', async () => {
+        jest.useFakeTimers();
+        const { autoCommitter, commit } = createAutoCommitter({
+            strategy: 'interval',
+            intervalMs: 1000
+        });
+        autoCommitter.onEventProcessed(1);
+        autoCommitter.onEventProcessed(2);
+        await jest.advanceTimersByTimeAsync(999);
+        expect(commit).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(1);
+        expect(commit.mock.calls).toEqual([[2]]);
+        // Replay IDs are only committed once
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(commit.mock.calls).toEqual([[2]]);
+
+        autoCommitter.close();
+        autoCommitter.onEventProcessed(3);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(commit.mock.calls).toEqual([[2]]);
+    });
+
+    it('commits each handled event with the handler policy', () => {
+        const { autoCommitter, commit } = createAutoCommitter({ strategy: 'handler' });
+        autoCommitter.onEventProcessed(1);
+        autoCommitter.onEventProcessed(2);
+
+        expect(commit.mock.calls).toEqual([[1], [2]]);
+        expect(autoCommitter.isAwaitingListeners()).toBe(true);
+    });
+
+    it('commits the latest replay ID of keepalive messages', () => {
+        const { autoCommitter, commit } = createAutoCommitter({ strategy: 'count', count: 100 });
+        autoCommitter.onEventProcessed(1);
+        autoCommitter.onKeepalive(5);
+        autoCommitter.onKeepalive(5);
+
+        expect(commit.mock.calls).toEqual([[5]]);
+    });
+
+    it('commits the last processed event when flushed', async () => {
+        const { autoCommitter, commit } = createAutoCommitter({ strategy: 'count', count: 100 });
+        autoCommitter.onEventProcessed(1);
+        autoCommitter.onEventProcessed(2);
+        await autoCommitter.flush();
+        await autoCommitter.flush();
+
+        expect(commit.mock.calls).toEqual([[2]]);
+    });
+
+    it('reports failed commits and retries them with the next commit', async () => {
+        const commit = jest
+            .fn(async (replayId: number) => replayId)
+            .mockRejectedValueOnce(new Error('Commit failed'));
+        const { autoCommitter, onError } = createAutoCommitter({ strategy: 'handler' }, commit);
+        autoCommitter.onEventProcessed(1);
+        await autoCommitter.flush();
+
+        expect(onError).toHaveBeenCalledWith(new Error('Commit failed'));
+        await autoCommitter.flush();
+        expect(commit.mock.calls).toEqual([[1], [1]]);
+    });
+
+    it('stops committing and reporting failures once closed', async () => {
+        let rejectCommit = (error: Error) => {};
+        const commit = jest.fn(
+            (replayId: number) =>
+                new Promise<number>((resolve, reject) => {
+                    rejectCommit = reject;
+                })
+        );
+        const { autoCommitter, onError } = createAutoCommitter({ strategy: 'handler' }, commit);
+        autoCommitter.onEventProcessed(1);
+        autoCommitter.close();
+        rejectCommit(new Error('Stream cancelled'));
+        await autoCommitter.flush();
+        autoCommitter.onEventProcessed(2);
+        autoCommitter.onKeepalive(3);
+
+        expect(onError).not.toHaveBeenCalled();
+        expect(commit).toHaveBeenCalledTimes(1);
+    });
+});
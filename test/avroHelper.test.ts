@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import avro from 'avro-js';
+import { ClientDuplexStream } from '@grpc/grpc-js';
+import { PublishRequest, PublishResponse } from '../src/pubsub_api';
+import { parseAvroSchema, wrapUnionValues } from '../src/utils/avroHelper';
+import { encodeReplayId } from '../src/utils/eventParser';
+import PubSubPublisher from '../src/utils/pubSubPublisher';
+
+const type = parseAvroSchema(
+    JSON.stringify({
+        type: 'record',
+        name: 'Sample__e',
+        namespace: 'com.sforce.eventbus',
+        fields: [
+            { name: 'CreatedDate', type: 'long' },
+            { name: 'Message__c', type: ['null', 'string'], default: null },
+            { name: 'Count__c', type: ['null', 'int', 'double'], default: null },
+            { name: 'Tags__c', type: { type: 'array', items: ['null', 'string'] }, default: [] },
+            {
+                name: 'Address__c',
+                type: [
+                    'null',
+                    {
+                        type: 'record',
+                        name: 'Address',
+                        fields: [{ name: 'City', type: ['null', 'string'], default: null }]
+                    }
+                ],
+                default: null
+            }
+        ]
+    })
+) as avro.types.RecordType;
+
+/**
+ * Payload type as declared by the codegen script
+ */
+interface Sample__e {
+    CreatedDate: number | bigint;
+    Message__c?: null | string;
+    Count__c?: null | number;
+    Tags__c?: (null | string)[];
+    Address__c?: null | { City?: null | string };
+}
+
+const silentLogger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+};
+
+describe('wrapUnionValues', () => {
+    it('wraps plain union values in their branch', () => {
+        expect(
+            wrapUnionValues(type, {
+                CreatedDate: 1700000000000,
+                Message__c: 'Hello',
+                Count__c: 1.5,
+                Tags__c: ['a', null],
+                Address__c: { City: 'Paris' }
+            })
+        ).toEqual({
+            CreatedDate: 1700000000000,
+            Message__c: { string: 'Hello' },
+            Count__c: { double: 1.5 },
+            Tags__c: [{ string: 'a' }, null],
+            Address__c: { 'com.sforce.eventbus.Address': { City: { string: 'Paris' } } }
+        });
+    });
+
+    it('uses the first branch that accepts the value', () => {
+        expect(wrapUnionValues(type, { CreatedDate: 1, Count__c: 2 })).toEqual({
+            CreatedDate: 1,
+            Count__c: { int: 2 }
+        });
+    });
+
+    it('keeps values that are already wrapped', () => {
+        const payload = {
+            CreatedDate: 1,
+            Message__c: { string: 'Hello' },
+            Count__c: { double: 2 },
+            Address__c: { 'com.sforce.eventbus.Address': { City: 'Paris' } }
+        };
+        expect(wrapUnionValues(type, payload)).toEqual({
+            CreatedDate: 1,
+            Message__c: { string: 'Hello' },
+            Count__c: { double: 2 },
+            Address__c: { 'com.sforce.eventbus.Address': { City: { string: 'Paris' } } }
+        });
+    });
+
+    it('leaves null and mismatching values untouched', () => {
+        expect(
+            wrapUnionValues(type, { CreatedDate: 1, Message__c: null, Count__c: 'many' })
+        ).toEqual({ CreatedDate: 1, Message__c: null, Count__c: 'many' });
+    });
+
+    it('publishes a typed payload through the Avro encoder', async () => {
+        const requests: PublishRequest[] = [];
+        const stream = Object.assign(new EventEmitter(), {
+            write: (request: PublishRequest) => {
+                requests.push(request);
+                const response: PublishResponse = {
+                    results: request.events.map((event) => ({
+                        replayId: encodeReplayId(1),
+                        error: undefined,
+                        correlationKey: event.id
+                    })),
+                    schemaId: 'schema-id',
+                    rpcId: 'rpc-id'
+                };
+                setImmediate(() => stream.emit('data', response));
+                return true;
+            },
+            end: () => {}
+        });
+        const publisher = new PubSubPublisher<Sample__e>(
+            '/event/Sample__e',
+            () => stream as unknown as ClientDuplexStream<PublishRequest, PublishResponse>,
+            async () => ({ id: 'schema-id', type }),
+            silentLogger,
+            { lingerMs: 0 }
+        );
+        const payload: Sample__e = {
+            CreatedDate: 1700000000000,
+            Message__c: 'Hello',
+            Address__c: { City: null }
+        };
+
+        const result = await publisher.publish(payload, 'key-1');
+        await publisher.close();
+
+        expect(result).toEqual({ correlationKey: 'key-1', replayId: 1 });
+        expect(requests).toHaveLength(1);
+        const decoded = type.fromBuffer(requests[0].events[0].payload);
+        expect(decoded.Message__c).toEqual({ string: 'Hello' });
+        expect(decoded.Address__c['com.sforce.eventbus.Address'].City).toBeNull();
+    });
+});
@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import FileCheckpointStore from '../src/utils/fileCheckpointStore';
+
+describe('FileCheckpointStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+        filePath = path.join(directory, 'checkpoints.json');
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    /**
+     * Reads the checkpoint file
+     */
+    async function readFile() {
+        return JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    }
+
+    it('returns null when no checkpoint was saved', async () => {
+        const store = new FileCheckpointStore(filePath);
+
+        expect(await store.load('/event/Sample__e', 'worker')).toBeNull();
+        expect(fs.existsSync(filePath)).toBe(false);
+    });
+
+    it('saves checkpoints that survive restarts', async () => {
+        const store = new FileCheckpointStore(filePath);
+        await store.save('/event/Sample__e', 'worker', 10);
+        await store.save('/event/Sample__e', 'worker', 12);
+        await store.save('/data/AccountChangeEvent', 'worker', 3);
+
+        const restartedStore = new FileCheckpointStore(filePath);
+        expect(await restartedStore.load('/event/Sample__e', 'worker')).toBe(12);
+        expect(await restartedStore.load('/data/AccountChangeEvent', 'worker')).toBe(3);
+        expect(await restartedStore.load('/event/Sample__e', 'other')).toBeNull();
+        expect(await fs.promises.readdir(directory)).toEqual(['checkpoints.json']);
+    });
+
+    it('deletes checkpoints and topics without checkpoints', async () => {
+        const store = new FileCheckpointStore(filePath);
+        await store.save('/event/Sample__e', 'worker', 10);
+        await store.save('/event/Sample__e', 'other', 11);
+        await store.save('/data/AccountChangeEvent', 'worker', 3);
+
+        await store.delete('/event/Sample__e', 'worker');
+        await store.delete('/data/AccountChangeEvent', 'worker');
+        await store.delete('/data/AccountChangeEvent', 'missing');
+
+        expect(await store.load('/event/Sample__e', 'worker')).toBeNull();
+        expect(await readFile()).toEqual({ '/event/Sample__e': { other: 11 } });
+    });
+
+    it('keeps the changes of concurrent calls made before the file is read', async () => {
+        await fs.promises.writeFile(filePath, JSON.stringify({ '/event/Sample__e': { worker: 1 } }));
+        const store = new FileCheckpointStore(filePath);
+        const readFile = jest.spyOn(fs.promises, 'readFile');
+
+        await Promise.all([
+            store.save('/event/Sample__e', 'worker', 10),
+            store.save('/event/Sample__e', 'other', 20),
+            store.load('/event/Sample__e', 'worker')
+        ]);
+
+        expect(readFile).toHaveBeenCalledTimes(1);
+        expect(await new FileCheckpointStore(filePath).load('/event/Sample__e', 'worker')).toBe(10);
+        expect(await new FileCheckpointStore(filePath).load('/event/Sample__e', 'other')).toBe(20);
+    });
+
+    it('coalesces the saves made while a write is in flight', async () => {
+        const store = new FileCheckpointStore(filePath);
+        const openFile = fs.promises.open;
+        let releaseWrite = () => {};
+        const isWriteReleased = new Promise<void>((resolve) => {
+            releaseWrite = resolve;
+        });
+        const open = jest
+            .spyOn(fs.promises, 'open')
+            .mockImplementationOnce(async (...args) => {
+                await isWriteReleased;
+                return openFile(...args);
+            });
+
+        const saves = [store.save('/event/Sample__e', 'worker', 1)];
+        while (open.mock.calls.length === 0) {
+            await new Promise((resolve) => setImmediate(resolve));
+        }
+        for (let replayId = 2; replayId <= 20; replayId++) {
+            saves.push(store.save('/event/Sample__e', 'worker', replayId));
+        }
+        releaseWrite();
+        await Promise.all(saves);
+
+        expect(open).toHaveBeenCalledTimes(2);
+        expect(await readFile()).toEqual({ '/event/Sample__e': { worker: 20 } });
+    });
+
+    it('reports unreadable files and reads them again on the next call', async () => {
+        await fs.promises.writeFile(filePath, '{ not json', 'utf8');
+        const store = new FileCheckpointStore(filePath);
+
+        await expect(store.load('/event/Sample__e', 'worker')).rejects.toThrow(
+            `Failed to read replay checkpoints from ${filePath}`
+        );
+        await fs.promises.writeFile(filePath, JSON.stringify({ '/event/Sample__e': { worker: 5 } }));
+        expect(await store.load('/event/Sample__e', 'worker')).toBe(5);
+    });
+
+    it('reports write failures', async () => {
+        const store = new FileCheckpointStore(path.join(directory, 'missing', 'checkpoints.json'));
+
+        await expect(store.save('/event/Sample__e', 'worker', 1)).rejects.toThrow(
+            'Failed to write replay checkpoints'
+        );
+        // Later saves still run
+        await expect(store.save('/event/Sample__e', 'worker', 2)).rejects.toThrow(
+            'Failed to write replay checkpoints'
+        );
+    });
+});
@@ -0,0 +1,108 @@
+import FlowController from '../src/utils/flowController';
+
+/**
+ * Builds a flow controller that records its fetch requests and completed replay IDs
+ */
+function createFlowController(highWaterMark?: number) {
+    const requests: number[] = [];
+    const completedReplayIds: number[] = [];
+    const flowController = new FlowController(
+        { highWaterMark },
+        (numRequested) => requests.push(numRequested),
+        (replayId) => completedReplayIds.push(replayId)
+    );
+    return { flowController, requests, completedReplayIds };
+}
+
+describe('FlowController', () => {
+    it('rejects invalid high-water marks', () => {
+        expect(() => createFlowController(0)).toThrow('high-water mark');
+        expect(() => createFlowController(1.5)).toThrow('high-water mark');
+    });
+
+    it('requests up to the high-water mark and at most 100 events', () => {
+        expect(createFlowController(10).flowController.getInitialRequestCount()).toBe(10);
+        expect(createFlowController(500).flowController.getInitialRequestCount()).toBe(100);
+    });
+
+    it('requests more events once all requested events are received and work drops below the high-water mark', () => {
+        const { flowController, requests } = createFlowController(2);
+        flowController.getInitialRequestCount();
+        const done1 = flowController.onEventReceived(1);
+        const done2 = flowController.onEventReceived(2);
+        expect(requests).toEqual([]);
+
+        done1();
+        expect(requests).toEqual([1]);
+        // The requested event hasn't been received yet
+        done2();
+        expect(requests).toEqual([1]);
+    });
+
+    it("doesn't request events before all requested events are received", () => {
+        const { flowController, requests } = createFlowController(3);
+        flowController.getInitialRequestCount();
+        flowController.onEventReceived(1)();
+        expect(requests).toEqual([]);
+    });
+
+    it('reports the last replay ID of contiguous processed events', () => {
+        const { flowController, completedReplayIds } = createFlowController(10);
+        flowController.getInitialRequestCount();
+        const done1 = flowController.onEventReceived(1);
+        const done2 = flowController.onEventReceived(2);
+        const done3 = flowController.onEventReceived(3);
+
+        done2();
+        expect(completedReplayIds).toEqual([]);
+        done1();
+        expect(completedReplayIds).toEqual([2]);
+        done3();
+        expect(completedReplayIds).toEqual([2, 3]);
+    });
+
+    it('ignores extra completion calls', () => {
+        const { flowController, completedReplayIds } = createFlowController(10);
+        flowController.getInitialRequestCount();
+        const done1 = flowController.onEventReceived(1);
+        done1();
+        done1();
+        expect(completedReplayIds).toEqual([1]);
+    });
+
+    it('stops requesting events once stopped', () => {
+        const { flowController, requests } = createFlowController(1);
+        flowController.getInitialRequestCount();
+        const done1 = flowController.onEventReceived(1);
+        flowController.stop();
+        done1();
+        expect(requests).toEqual([]);
+    });
+
+    it('waits until outstanding events are processed', async () => {
+        const { flowController } = createFlowController(10);
+        flowController.getInitialRequestCount();
+        await expect(flowController.waitForIdle()).resolves.toBeUndefined();
+
+        const done1 = flowController.onEventReceived(1);
+        let isIdle = false;
+        const idle = flowController.waitForIdle().then(() => {
+            isIdle = true;
+        });
+        await Promise.resolve();
+        expect(isIdle).toBe(false);
+        expect(flowController.isIdle()).toBe(false);
+
+        done1();
+        await idle;
+        expect(isIdle).toBe(true);
+    });
+
+    it('requests fewer events when reopening a stream with outstanding events', () => {
+        const { flowController } = createFlowController(5);
+        flowController.getInitialRequestCount();
+        flowController.onEventReceived(1);
+        flowController.onEventReceived(2);
+        expect(flowController.getInitialRequestCount()).toBe(3);
+    });
+});
@@ -0,0 +1,88 @@
+import { createChannel, isLoopbackEndpoint } from '../src/utils/grpcChannel';
+import { resolveClientConfig } from '../src/utils/clientConfiguration';
+import HttpProxy from '../src/utils/httpProxy';
+
+const metadataGenerator = jest.fn();
+
+const authProvider = {
+    getCredentials: async () => ({
+        accessToken: 'token',
+        instanceUrl: 'https://example.my.salesforce.com',
+        organizationId: '00D000000000001'
+    }),
+    invalidate: () => {}
+};
+
+describe('gRPC channel', () => {
+    it('recognizes loopback endpoints', () => {
+        [
+            'localhost:7443',
+            'LOCALHOST:7443',
+            'pubsub.localhost:7443',
+            '127.0.0.1:7443',
+            '127.10.20.30:7443',
+            '[::1]:7443'
+        ].forEach((endpoint) => expect(isLoopbackEndpoint(endpoint)).toBe(true));
+        [
+            'api.pubsub.salesforce.com:7443',
+            'localhost.example.com:7443',
+            '128.0.0.1:7443',
+            '127.0.0.1.example.com:7443',
+            '[::2]:7443',
+            '0.0.0.0:7443'
+        ].forEach((endpoint) => expect(isLoopbackEndpoint(endpoint)).toBe(false));
+    });
+
+    it('connects to loopback endpoints without TLS in plaintext mode', () => {
+        const proxy = new HttpProxy({ url: 'http://proxy.example.com:3128' });
+        const channel = createChannel(
+            '127.0.0.1:7443',
+            { plaintext: true },
+            metadataGenerator,
+            proxy
+        );
+
+        expect(channel.address).toBe('127.0.0.1:7443');
+        expect(channel.credentials._isSecure()).toBe(false);
+        expect(channel.options.interceptors).toHaveLength(1);
+    });
+
+    it('refuses plaintext connections to remote endpoints', () => {
+        expect(() =>
+            createChannel('api.pubsub.salesforce.com:7443', { plaintext: true }, metadataGenerator)
+        ).toThrow(
+            'Plaintext connections are only allowed to loopback endpoints, not to api.pubsub.salesforce.com:7443'
+        );
+    });
+
+    it('connects with TLS and call credentials by default', () => {
+        const channel = createChannel(
+            'api.pubsub.salesforce.com:7443',
+            { keepaliveTimeMs: 30000 },
+            metadataGenerator
+        );
+
+        expect(channel.address).toBe('api.pubsub.salesforce.com:7443');
+        expect(channel.credentials._isSecure()).toBe(true);
+        expect(channel.options).toEqual({ 'grpc.keepalive_time_ms': 30000 });
+    });
+
+    it('rejects plaintext configurations with remote endpoints', () => {
+        expect(() =>
+            resolveClientConfig({
+                auth: authProvider,
+                endpoint: 'api.pubsub.salesforce.com:7443',
+                channel: { plaintext: true }
+            })
+        ).toThrow(
+            'channel.plaintext: Plaintext mode is only allowed with loopback endpoints (localhost, 127.0.0.1, [::1]), not with api.pubsub.salesforce.com:7443'
+        );
+        expect(
+            resolveClientConfig({
+                auth: authProvider,
+                endpoint: 'localhost:7443',
+                channel: { plaintext: true }
+            }).channel
+        ).toEqual({ plaintext: true });
+    });
+});
@@ -0,0 +1,144 @@
+import avro from 'avro-js';
+import { parseAvroSchema } from '../src/utils/avroHelper';
+import {
+    createPayloadSchema,
+    validatePayload
+} from '../src/utils/payloadValidator';
+import PayloadValidationError from '../src/utils/payloadValidationError';
+
+const type = parseAvroSchema(
+    JSON.stringify({
+        type: 'record',
+        name: 'Sample__e',
+        fields: [
+            { name: 'CreatedDate', type: 'long' },
+            { name: 'Message__c', type: ['null', 'string'], default: null },
+            { name: 'Count__c', type: ['null', 'int', 'double'], default: null },
+            { name: 'Status__c', type: { type: 'enum', name: 'Status', symbols: ['OPEN', 'CLOSED'] } },
+            { name: 'Tags__c', type: { type: 'array', items: 'string' }, default: [] },
+            {
+                name: 'Address__c',
+                type: [
+                    'null',
+                    {
+                        type: 'record',
+                        name: 'Address',
+                        fields: [{ name: 'City', type: ['null', 'string'], default: null }]
+                    }
+                ],
+                default: null
+            }
+        ]
+    })
+) as avro.types.RecordType;
+
+const validPayload = {
+    CreatedDate: 1700000000000,
+    Message__c: { string: 'Hello' },
+    Status__c: 'OPEN'
+};
+
+/**
+ * Validates a payload and returns the paths and messages of its issues
+ */
+function getIssues(schema: ReturnType<typeof createPayloadSchema>, payload: unknown) {
+    try {
+        validatePayload(schema, '/event/Sample__e', payload);
+        return [];
+    } catch (error) {
+        expect(error).toBeInstanceOf(PayloadValidationError);
+        return (error as PayloadValidationError).issues.map(
+            (issue) => `${issue.path.join('.')}: ${issue.message}`
+        );
+    }
+}
+
+describe('payload validation', () => {
+    it('accepts payloads that match the Avro schema', () => {
+        const schema = createPayloadSchema(type);
+        expect(getIssues(schema, validPayload)).toEqual([]);
+        expect(
+            getIssues(schema, {
+                ...validPayload,
+                CreatedDate: 2n ** 60n,
+                Count__c: { double: 1.5 },
+                Tags__c: ['a', 'b'],
+                Address__c: { Address: { City: { string: 'Paris' } } }
+            })
+        ).toEqual([]);
+    });
+
+    it('accepts payloads decoded by avro-js', () => {
+        const schema = createPayloadSchema(type);
+        const decodedPayload = type.fromBuffer(type.toBuffer(validPayload));
+        expect(getIssues(schema, decodedPayload)).toEqual([]);
+    });
+
+    it('reports type mismatches with their path', () => {
+        const schema = createPayloadSchema(type);
+        expect(
+            getIssues(schema, {
+                ...validPayload,
+                CreatedDate: 1.5,
+                Message__c: { string: 42 },
+                Status__c: 'PENDING'
+            })
+        ).toEqual([
+            'CreatedDate: Expected an integer or a bigint',
+            'Message__c.string: Expected string, received number',
+            "Status__c: Invalid enum value. Expected 'OPEN' | 'CLOSED', received 'PENDING'"
+        ]);
+    });
+
+    it('requires fields without default values', () => {
+        const schema = createPayloadSchema(type);
+        expect(getIssues(schema, { CreatedDate: 1 })).toEqual(['Status__c: Required']);
+    });
+
+    it('rejects unknown fields', () => {
+        const schema = createPayloadSchema(type);
+        expect(getIssues(schema, { ...validPayload, Unknown__c: 1 })).toEqual([
+            ": Unrecognized key(s) in object: 'Unknown__c'"
+        ]);
+    });
+
+    it('rejects union values that are not wrapped with their type name', () => {
+        const schema = createPayloadSchema(type);
+        expect(getIssues(schema, { ...validPayload, Message__c: 'Hello' })).toHaveLength(1);
+    });
+
+    it('applies business constraints', () => {
+        const schema = createPayloadSchema(type, {
+            Message__c: { required: true, maxLength: 5, pattern: /^[A-Z]/ },
+            'Address__c.City': { values: ['Paris', 'Lyon'] }
+        });
+        expect(
+            getIssues(schema, {
+                ...validPayload,
+                Message__c: { string: 'hello world' },
+                Address__c: { Address: { City: { string: 'Nice' } } }
+            })
+        ).toEqual([
+            'Message__c.string: String must contain at most 5 character(s)',
+            'Message__c.string: Invalid',
+            'Address__c.Address.City.string: Expected one of Paris, Lyon'
+        ]);
+        expect(getIssues(schema, { ...validPayload, Message__c: null })).toHaveLength(1);
+    });
+
+    it('rejects constraints on unknown fields or fields without strings', () => {
+        expect(() => createPayloadSchema(type, { Unknown__c: { required: true } })).toThrow(
+            'Unknown fields in payload constraints: Unknown__c'
+        );
+        expect(() => createPayloadSchema(type, { Count__c: { maxLength: 5 } })).toThrow(
+            "Field Count__c can't have string constraints"
+        );
+    });
+
+    it('describes issues in the error message', () => {
+        const schema = createPayloadSchema(type);
+        expect(() => validatePayload(schema, '/event/Sample__e', { CreatedDate: 1 })).toThrow(
+            'Invalid payload for topic /event/Sample__e: Status__c: Required'
+        );
+    });
+});
@@ -0,0 +1,268 @@
+import { EventEmitter } from 'events';
+import { ClientDuplexStream, status } from '@grpc/grpc-js';
+import { PublishRequest, PublishResponse } from '../src/pubsub_api';
+import { parseAvroSchema } from '../src/utils/avroHelper';
+import { encodeReplayId } from '../src/utils/eventParser';
+import PubSubPublisher, { PublisherOptions } from '../src/utils/pubSubPublisher';
+
+const type = parseAvroSchema(
+    JSON.stringify({
+        type: 'record',
+        name: 'Sample__e',
+        fields: [{ name: 'Message__c', type: ['null', 'string'], default: null }]
+    })
+);
+
+interface Sample__e {
+    Message__c: null | string;
+}
+
+const silentLogger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {}
+};
+
+/**
+ * Fake publish stream that records the requests written by the publisher
+ */
+class FakeStream extends EventEmitter {
+    requests: PublishRequest[] = [];
+    isEnded = false;
+
+    write(request: PublishRequest) {
+        this.requests.push(request);
+        return true;
+    }
+
+    end() {
+        this.isEnded = true;
+    }
+
+    /**
+     * Acknowledges the events of a request, in the order of the given correlation keys if provided
+     */
+    respond(request: PublishRequest, correlationKeys = request.events.map((event) => event.id)) {
+        const response: PublishResponse = {
+            results: correlationKeys.map((correlationKey, index) => ({
+                replayId: encodeReplayId(index + 1),
+                error: undefined,
+                correlationKey
+            })),
+            schemaId: 'schema-id',
+            rpcId: 'rpc-id'
+        };
+        this.emit('data', response);
+    }
+
+    /**
+     * Returns the messages of the events written so far
+     */
+    getMessages() {
+        return this.requests.map((request) =>
+            request.events.map((event) => type.fromBuffer(event.payload).Message__c?.string)
+        );
+    }
+}
+
+/**
+ * Builds a publisher whose streams are fake streams
+ */
+function createPublisher(options: PublisherOptions<Sample__e> = {}) {
+    const streams: FakeStream[] = [];
+    const publisher = new PubSubPublisher<Sample__e>(
+        '/event/Sample__e',
+        () => {
+            const stream = new FakeStream();
+            streams.push(stream);
+            return stream as unknown as ClientDuplexStream<PublishRequest, PublishResponse>;
+        },
+        async () => ({ id: 'schema-id', type }),
+        silentLogger,
+        options
+    );
+    return { publisher, streams };
+}
+
+/**
+ * Builds a gRPC error with a status code
+ */
+function grpcError(code: status) {
+    return Object.assign(new Error(`Stream failed with code ${code}`), { code, details: '' });
+}
+
+describe('PubSubPublisher', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('splits queued events into batches of maxBatchSize', async () => {
+        const { publisher, streams } = createPublisher({ maxBatchSize: 2 });
+        ['a', 'b', 'c', 'd', 'e'].forEach((message) =>
+            publisher.publish({ Message__c: message })
+        );
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(streams).toHaveLength(1);
+        expect(streams[0].getMessages()).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+        expect(streams[0].requests[0].topicName).toBe('/event/Sample__e');
+    });
+
+    it('waits lingerMs for a batch to fill up', async () => {
+        const { publisher, streams } = createPublisher({ lingerMs: 100 });
+        publisher.publish({ Message__c: 'a' });
+        await jest.advanceTimersByTimeAsync(50);
+        publisher.publish({ Message__c: 'b' });
+        await jest.advanceTimersByTimeAsync(49);
+
+        expect(streams).toHaveLength(0);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(streams[0].getMessages()).toEqual([['a', 'b']]);
+    });
+
+    it('resolves each publication with the result matching its correlation key', async () => {
+        const { publisher, streams } = createPublisher();
+        const first = publisher.publish({ Message__c: 'a' }, 'key-1');
+        const second = publisher.publish({ Message__c: 'b' }, 'key-2');
+        await jest.advanceTimersByTimeAsync(50);
+        streams[0].respond(streams[0].requests[0], ['key-2', 'key-1']);
+
+        await expect(first).resolves.toEqual({ correlationKey: 'key-1', replayId: 2 });
+        await expect(second).resolves.toEqual({ correlationKey: 'key-2', replayId: 1 });
+    });
+
+    it('rejects duplicate correlation keys', async () => {
+        const { publisher } = createPublisher();
+        publisher.publish({ Message__c: 'a' }, 'key-1');
+
+        await expect(publisher.publish({ Message__c: 'b' }, 'key-1')).rejects.toThrow(
+            'An event with correlation key key-1 is already being published'
+        );
+    });
+
+    it('limits the number of batches in flight', async () => {
+        const { publisher, streams } = createPublisher({
+            maxBatchSize: 1,
+            maxInFlightBatches: 2
+        });
+        ['a', 'b', 'c'].forEach((message) => publisher.publish({ Message__c: message }));
+        await jest.advanceTimersByTimeAsync(0);
+        expect(streams[0].getMessages()).toEqual([['a'], ['b']]);
+
+        streams[0].respond(streams[0].requests[0]);
+        await jest.advanceTimersByTimeAsync(0);
+        expect(streams[0].getMessages()).toEqual([['a'], ['b'], ['c']]);
+    });
+
+    it('rejects events that fail to encode without failing their batch', async () => {
+        const { publisher, streams } = createPublisher();
+        const invalid = publisher.publish({ Message__c: 42 } as unknown as Sample__e, 'key-1');
+        const valid = publisher.publish({ Message__c: 'a' }, 'key-2');
+        const rejection = expect(invalid).rejects.toThrow(
+            'Failed to encode event with correlation key key-1'
+        );
+        await jest.advanceTimersByTimeAsync(50);
+
+        await rejection;
+        expect(streams[0].getMessages()).toEqual([['a']]);
+        streams[0].respond(streams[0].requests[0]);
+        await expect(valid).resolves.toEqual({ correlationKey: 'key-2', replayId: 1 });
+    });
+
+    it('sends in-flight events once more on a new stream after a transient failure', async () => {
+        const { publisher, streams } = createPublisher();
+        const result = publisher.publish({ Message__c: 'a' }, 'key-1');
+        await jest.advanceTimersByTimeAsync(50);
+
+        streams[0].emit('error', grpcError(status.UNAVAILABLE));
+        await jest.advanceTimersByTimeAsync(0);
+        expect(streams).toHaveLength(2);
+        expect(streams[1].requests[0].events[0].id).toBe('key-1');
+
+        streams[1].respond(streams[1].requests[0]);
+        await expect(result).resolves.toEqual({ correlationKey: 'key-1', replayId: 1 });
+    });
+
+    it('rejects resent events that fail again', async () => {
+        const { publisher, streams } = createPublisher();
+        const result = publisher.publish({ Message__c: 'a' }, 'key-1');
+        await jest.advanceTimersByTimeAsync(50);
+
+        streams[0].emit('end');
+        await jest.advanceTimersByTimeAsync(0);
+        streams[1].emit('error', grpcError(status.UNAVAILABLE));
+
+        await expect(result).rejects.toThrow('Stream failed with code 14');
+    });
+
+    it('rejects in-flight events after a non-retryable failure', async () => {
+        const { publisher, streams } = createPublisher();
+        const result = publisher.publish({ Message__c: 'a' });
+        await jest.advanceTimersByTimeAsync(50);
+
+        streams[0].emit('error', grpcError(status.PERMISSION_DENIED));
+
+        await expect(result).rejects.toThrow('Stream failed with code 7');
+        await jest.advanceTimersByTimeAsync(0);
+        expect(streams).toHaveLength(1);
+    });
+
+    it('publishes keepalive events when no publish request was sent for keepaliveIntervalMs', async () => {
+        const { publisher, streams } = createPublisher({
+            keepalivePayload: () => ({ Message__c: 'keepalive' }),
+            keepaliveIntervalMs: 1000
+        });
+        publisher.publish({ Message__c: 'a' });
+        await jest.advanceTimersByTimeAsync(50);
+        streams[0].respond(streams[0].requests[0]);
+
+        await jest.advanceTimersByTimeAsync(999);
+        expect(streams[0].getMessages()).toEqual([['a']]);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(streams[0].getMessages()).toEqual([['a'], ['keepalive']]);
+
+        streams[0].respond(streams[0].requests[1]);
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(streams[0].getMessages()).toEqual([['a'], ['keepalive'], ['keepalive']]);
+        expect(streams).toHaveLength(1);
+    });
+
+    it('leaves idle streams open without a keepalive payload', async () => {
+        const { publisher, streams } = createPublisher();
+        publisher.publish({ Message__c: 'a' });
+        await jest.advanceTimersByTimeAsync(50);
+        streams[0].respond(streams[0].requests[0]);
+
+        await jest.advanceTimersByTimeAsync(120000);
+        expect(streams[0].requests).toHaveLength(1);
+        expect(streams[0].isEnded).toBe(false);
+    });
+
+    it('rejects keepalive intervals that reach the server idle timeout', () => {
+        expect(() => createPublisher({ keepaliveIntervalMs: 70000 })).toThrow(
+            'Expected a keepalive interval between 0 and 70000ms but got 70000ms'
+        );
+    });
+
+    it('flushes pending events and ends the stream when closed', async () => {
+        const { publisher, streams } = createPublisher({
+            keepalivePayload: () => ({ Message__c: 'keepalive' })
+        });
+        const result = publisher.publish({ Message__c: 'a' });
+        const closed = publisher.close();
+        await jest.advanceTimersByTimeAsync(0);
+        streams[0].respond(streams[0].requests[0]);
+        await closed;
+
+        await expect(result).resolves.toEqual(expect.objectContaining({ replayId: 1 }));
+        expect(streams[0].isEnded).toBe(true);
+        await expect(publisher.publish({ Message__c: 'b' })).rejects.toThrow('is closed');
+        await jest.advanceTimersByTimeAsync(120000);
+        expect(streams[0].requests).toHaveLength(1);
+    });
+});
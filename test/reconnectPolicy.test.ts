@@ -0,0 +1,69 @@
+import { status as GrpcStatus } from '@grpc/grpc-js';
+import {
+    getReconnectDelay,
+    isRetryableStatus
+} from '../src/utils/reconnectPolicy';
+
+describe('getReconnectDelay', () => {
+    it('grows delays exponentially up to the max delay', () => {
+        const policy = {
+            initialDelayMs: 100,
+            maxDelayMs: 1000,
+            multiplier: 3,
+            jitter: 0
+        };
+        expect(
+            [0, 1, 2, 3].map((attempt) => getReconnectDelay(policy, attempt))
+        ).toEqual([100, 300, 900, 1000]);
+    });
+
+    it('uses default delays of 1 second doubling up to 1 minute', () => {
+        const policy = { jitter: 0 };
+        expect(getReconnectDelay(policy, 0)).toBe(1000);
+        expect(getReconnectDelay(policy, 1)).toBe(2000);
+        expect(getReconnectDelay(policy, 10)).toBe(60000);
+    });
+
+    it('randomizes delays with jitter', () => {
+        const random = jest.spyOn(Math, 'random');
+        try {
+            random.mockReturnValue(1);
+            expect(getReconnectDelay({ initialDelayMs: 1000, jitter: 0.5 }, 0)).toBe(500);
+            random.mockReturnValue(0);
+            expect(getReconnectDelay({ initialDelayMs: 1000, jitter: 0.5 }, 0)).toBe(1000);
+        } finally {
+            random.mockRestore();
+        }
+    });
+
+    it('clamps jitter between 0 and 1', () => {
+        const random = jest.spyOn(Math, 'random').mockReturnValue(1);
+        try {
+            expect(getReconnectDelay({ initialDelayMs: 1000, jitter: 2 }, 0)).toBe(0);
+            expect(getReconnectDelay({ initialDelayMs: 1000, jitter: -1 }, 0)).toBe(1000);
+        } finally {
+            random.mockRestore();
+        }
+    });
+
+    it('returns null once the max number of attempts is reached', () => {
+        const policy = { maxAttempts: 2, jitter: 0 };
+        expect(getReconnectDelay(policy, 1)).toBe(2000);
+        expect(getReconnectDelay(policy, 2)).toBeNull();
+    });
+});
+
+describe('isRetryableStatus', () => {
+    it('retries transient statuses', () => {
+        expect(isRetryableStatus(GrpcStatus.UNAVAILABLE)).toBe(true);
+        expect(isRetryableStatus(GrpcStatus.DEADLINE_EXCEEDED)).toBe(true);
+        expect(isRetryableStatus(GrpcStatus.INTERNAL)).toBe(true);
+    });
+
+    it("doesn't retry statuses that would fail the same way", () => {
+        expect(isRetryableStatus(GrpcStatus.INVALID_ARGUMENT)).toBe(false);
+        expect(isRetryableStatus(GrpcStatus.NOT_FOUND)).toBe(false);
+        expect(isRetryableStatus(GrpcStatus.PERMISSION_DENIED)).toBe(false);
+        expect(isRetryableStatus(GrpcStatus.UNIMPLEMENTED)).toBe(false);
+    });
+});
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import SchemaCache from '../src/utils/schemaCache';
+import { parseAvroSchema } from '../src/utils/avroHelper';
+
+const schemaJson = JSON.stringify({
+    type: 'record',
+    name: 'Sample__e',
+    fields: [{ name: 'Message__c', type: ['null', 'string'], default: null }]
+});
+
+/**
+ * Builds a parsed schema
+ */
+function createSchema(id: string) {
+    return { id, type: parseAvroSchema(schemaJson), json: schemaJson };
+}
+
+describe('SchemaCache', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('rejects sizes below 1', () => {
+        expect(() => new SchemaCache({ maxEntries: 0 })).toThrow('at least 1');
+    });
+
+    it('returns cached schemas', async () => {
+        const cache = new SchemaCache();
+        const schema = createSchema('schema1');
+        await cache.set(schema);
+
+        expect(await cache.getFromId('schema1')).toBe(schema);
+        expect(await cache.getFromId('schema2')).toBeUndefined();
+    });
+
+    it('evicts the least recently used schemas beyond the size limit', async () => {
+        const cache = new SchemaCache({ maxEntries: 2 });
+        await cache.set(createSchema('schema1'));
+        await cache.set(createSchema('schema2'));
+        // Using schema1 makes schema2 the least recently used
+        await cache.getFromId('schema1');
+        await cache.set(createSchema('schema3'));
+
+        expect(await cache.getFromId('schema1')).toBeDefined();
+        expect(await cache.getFromId('schema2')).toBeUndefined();
+        expect(await cache.getFromId('schema3')).toBeDefined();
+    });
+
+    it('expires schemas after their time to live', async () => {
+        const now = Date.now();
+        const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+        const cache = new SchemaCache({ ttlMs: 1000 });
+        await cache.set(createSchema('schema1'));
+
+        dateNow.mockReturnValue(now + 1000);
+        expect(await cache.getFromId('schema1')).toBeDefined();
+        dateNow.mockReturnValue(now + 2001);
+        expect(await cache.getFromId('schema1')).toBeUndefined();
+    });
+
+    describe('with a directory', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'schema-cache-'));
+        });
+
+        afterEach(async () => {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        });
+
+        it('stores schemas on disk and decodes them after a restart', async () => {
+            await new SchemaCache({ directory }).set(createSchema('schema1'));
+            expect(
+                await fs.promises.readFile(path.join(directory, 'schema1.json'), 'utf8')
+            ).toBe(schemaJson);
+
+            const schema = await new SchemaCache({ directory }).getFromId('schema1');
+            expect(schema?.id).toBe('schema1');
+            expect(schema?.json).toBe(schemaJson);
+            const payload = { Message__c: { string: 'Hello' } };
+            expect(schema?.type.fromBuffer(schema.type.toBuffer(payload))).toEqual(payload);
+        });
+
+        it("doesn't use schema IDs that aren't safe file names", async () => {
+            await new SchemaCache({ directory }).set(createSchema('../schema1'));
+            expect(await fs.promises.readdir(directory)).toEqual([]);
+            expect(await fs.promises.readdir(path.dirname(directory))).not.toContain(
+                'schema1.json'
+            );
+        });
+
+        it('treats unreadable files as cache misses', async () => {
+            await fs.promises.writeFile(path.join(directory, 'schema1.json'), '{ not json', 'utf8');
+            expect(await new SchemaCache({ directory }).getFromId('schema1')).toBeUndefined();
+        });
+
+        it('ignores expired files', async () => {
+            await new SchemaCache({ directory }).set(createSchema('schema1'));
+            const past = new Date(Date.now() - 5000);
+            await fs.promises.utimes(path.join(directory, 'schema1.json'), past, past);
+
+            const cache = new SchemaCache({ directory, ttlMs: 1000 });
+            expect(await cache.getFromId('schema1')).toBeUndefined();
+        });
+
+        it("keeps schemas in memory when they can't be written to disk", async () => {
+            const filePath = path.join(directory, 'file');
+            await fs.promises.writeFile(filePath, '', 'utf8');
+            const cache = new SchemaCache({ directory: path.join(filePath, 'schemas') });
+            const schema = createSchema('schema1');
+
+            await expect(cache.set(schema)).resolves.toBeUndefined();
+            expect(await cache.getFromId('schema1')).toBe(schema);
+        });
+    });
+});
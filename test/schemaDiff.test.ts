@@ -0,0 +1,83 @@
+import avro from 'avro-js';
+import { parseAvroSchema } from '../src/utils/avroHelper';
+import { diffSchemas } from '../src/utils/schemaDiff';
+
+/**
+ * Parses a record schema
+ */
+function parseRecord(fields: object[]) {
+    return parseAvroSchema(
+        JSON.stringify({ type: 'record', name: 'Sample__e', fields })
+    ) as avro.types.RecordType;
+}
+
+const address = (fields: object[]) => ({
+    name: 'Address__c',
+    type: { type: 'record', name: 'Address', fields }
+});
+
+describe('diffSchemas', () => {
+    it('reports no differences between identical schemas', () => {
+        const fields = [{ name: 'Message__c', type: 'string' }];
+        expect(diffSchemas(parseRecord(fields), parseRecord(fields))).toEqual({
+            added: [],
+            removed: [],
+            retyped: []
+        });
+    });
+
+    it('reports added, removed and retyped fields with their types', () => {
+        const previousType = parseRecord([
+            { name: 'Message__c', type: 'string' },
+            { name: 'Count__c', type: 'int' },
+            { name: 'Legacy__c', type: ['null', 'string'] }
+        ]);
+        const type = parseRecord([
+            { name: 'Message__c', type: 'string' },
+            { name: 'Count__c', type: 'long' },
+            { name: 'Amount__c', type: ['null', 'double'] }
+        ]);
+        expect(diffSchemas(previousType, type)).toEqual({
+            added: [{ path: 'Amount__c', type: ['null', 'double'] }],
+            removed: [{ path: 'Legacy__c', previousType: ['null', 'string'] }],
+            retyped: [{ path: 'Count__c', type: 'long', previousType: 'int' }]
+        });
+    });
+
+    it('compares the fields of nested records one by one', () => {
+        const previousType = parseRecord([
+            address([
+                { name: 'City', type: 'string' },
+                { name: 'Zip', type: 'int' }
+            ])
+        ]);
+        const type = parseRecord([
+            address([
+                { name: 'City', type: 'string' },
+                { name: 'Zip', type: 'string' },
+                { name: 'Country', type: 'string' }
+            ])
+        ]);
+        expect(diffSchemas(previousType, type)).toEqual({
+            added: [{ path: 'Address__c.Country', type: 'string' }],
+            removed: [],
+            retyped: [{ path: 'Address__c.Zip', type: 'string', previousType: 'int' }]
+        });
+    });
+
+    it('reports a field that becomes a record as retyped', () => {
+        const previousType = parseRecord([{ name: 'Address__c', type: 'string' }]);
+        const type = parseRecord([address([{ name: 'City', type: 'string' }])]);
+        expect(diffSchemas(previousType, type).retyped).toEqual([
+            {
+                path: 'Address__c',
+                type: {
+                    type: 'record',
+                    name: 'Address',
+                    fields: [{ name: 'City', type: 'string' }]
+                },
+                previousType: 'string'
+            }
+        ]);
+    });
+});
@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import SqliteCheckpointStore from '../src/utils/sqliteCheckpointStore';
+
+describe('SqliteCheckpointStore', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'checkpoints-'));
+        filePath = path.join(directory, 'checkpoints.db');
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('returns null when no checkpoint was saved', async () => {
+        const store = new SqliteCheckpointStore(filePath);
+
+        expect(await store.load('/event/Sample__e', 'worker')).toBeNull();
+        store.close();
+    });
+
+    it('saves checkpoints that survive restarts', async () => {
+        const store = new SqliteCheckpointStore(filePath);
+        await store.save('/event/Sample__e', 'worker', 10);
+        await store.save('/event/Sample__e', 'worker', 12);
+        await store.save('/data/AccountChangeEvent', 'worker', 3);
+        store.close();
+
+        const restartedStore = new SqliteCheckpointStore(filePath);
+        expect(await restartedStore.load('/event/Sample__e', 'worker')).toBe(12);
+        expect(await restartedStore.load('/data/AccountChangeEvent', 'worker')).toBe(3);
+        expect(await restartedStore.load('/event/Sample__e', 'other')).toBeNull();
+        restartedStore.close();
+    });
+
+    it('deletes checkpoints', async () => {
+        const store = new SqliteCheckpointStore(filePath);
+        await store.save('/event/Sample__e', 'worker', 10);
+        await store.save('/event/Sample__e', 'other', 11);
+
+        await store.delete('/event/Sample__e', 'worker');
+        await store.delete('/event/Sample__e', 'missing');
+
+        expect(await store.load('/event/Sample__e', 'worker')).toBeNull();
+        expect(await store.load('/event/Sample__e', 'other')).toBe(11);
+        store.close();
+    });
+
+    it('reports databases that fail to open', () => {
+        const missingPath = path.join(directory, 'missing', 'checkpoints.db');
+
+        expect(() => new SqliteCheckpointStore(missingPath)).toThrow(
+            `Failed to open replay checkpoint database ${missingPath}`
+        );
+    });
+});
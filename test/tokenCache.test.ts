@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import TokenCache from '../src/utils/tokenCache';
+
+const credentials = {
+    accessToken: '00D000000000001!token',
+    instanceUrl: 'https://example.my.salesforce.com',
+    organizationId: '00D000000000001'
+};
+
+describe('TokenCache', () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'token-cache-'));
+        filePath = path.join(directory, 'tokens.json');
+    });
+
+    afterEach(async () => {
+        jest.restoreAllMocks();
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('requires a secret', () => {
+        expect(() => new TokenCache({ filePath, secret: '' })).toThrow('secret');
+    });
+
+    it('starts with an empty cache without warning when the file is missing', async () => {
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const cache = new TokenCache({ filePath, secret: 's3cret' }, logger);
+
+        expect(await cache.load('user@example.com')).toBeNull();
+        expect(logger.warn).not.toHaveBeenCalled();
+    });
+
+    it('stores credentials in an encrypted file', async () => {
+        const cache = new TokenCache({ filePath, secret: 's3cret' });
+        await cache.save('user@example.com', credentials);
+
+        const content = await fs.promises.readFile(filePath, 'utf8');
+        expect(content).not.toContain(credentials.accessToken);
+        expect(await cache.load('user@example.com')).toEqual(credentials);
+        expect(await cache.load('other@example.com')).toBeNull();
+        // A new cache reads the same file
+        expect(
+            await new TokenCache({ filePath, secret: 's3cret' }).load('user@example.com')
+        ).toEqual(credentials);
+    });
+
+    it('deletes credentials', async () => {
+        const cache = new TokenCache({ filePath, secret: 's3cret' });
+        await cache.save('user@example.com', credentials);
+        await cache.save('other@example.com', credentials);
+        await cache.delete('user@example.com');
+
+        expect(await cache.load('user@example.com')).toBeNull();
+        expect(await cache.load('other@example.com')).toEqual(credentials);
+    });
+
+    it('keeps concurrent updates', async () => {
+        const cache = new TokenCache({ filePath, secret: 's3cret' });
+        await Promise.all([
+            cache.save('a', credentials),
+            cache.save('b', credentials),
+            cache.save('c', credentials)
+        ]);
+        for (const key of ['a', 'b', 'c']) {
+            expect(await cache.load(key)).toEqual(credentials);
+        }
+    });
+
+    it('expires credentials after the max age', async () => {
+        const now = Date.now();
+        const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+        const cache = new TokenCache({ filePath, secret: 's3cret', maxAgeMs: 1000 });
+        await cache.save('user@example.com', credentials);
+
+        dateNow.mockReturnValue(now + 1000);
+        expect(await cache.load('user@example.com')).toEqual(credentials);
+        dateNow.mockReturnValue(now + 1001);
+        expect(await cache.load('user@example.com')).toBeNull();
+    });
+
+    it('expires credentials after 2 hours by default', async () => {
+        const now = Date.now();
+        const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+        const cache = new TokenCache({ filePath, secret: 's3cret' });
+        await cache.save('user@example.com', credentials);
+
+        dateNow.mockReturnValue(now + 2 * 60 * 60 * 1000 + 1);
+        expect(await cache.load('user@example.com')).toBeNull();
+    });
+
+    it('treats a corrupt file as empty and overwrites it', async () => {
+        await fs.promises.writeFile(filePath, '{ not json', 'utf8');
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const cache = new TokenCache({ filePath, secret: 's3cret' }, logger);
+
+        expect(await cache.load('user@example.com')).toBeNull();
+        expect(logger.warn).toHaveBeenCalledWith(
+            `Failed to read token cache ${filePath}, starting with an empty cache`,
+            expect.any(SyntaxError)
+        );
+        await cache.save('user@example.com', credentials);
+        expect(await cache.load('user@example.com')).toEqual(credentials);
+    });
+
+    it('treats a file encrypted with another secret as empty', async () => {
+        await new TokenCache({ filePath, secret: 'old' }).save('user@example.com', credentials);
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const cache = new TokenCache({ filePath, secret: 'new' }, logger);
+
+        expect(await cache.load('user@example.com')).toBeNull();
+        expect(logger.warn).toHaveBeenCalledWith(
+            `Failed to read token cache ${filePath}, starting with an empty cache`,
+            expect.objectContaining({ message: expect.stringContaining('unable to authenticate data') })
+        );
+        await cache.save('other@example.com', credentials);
+        expect(await cache.load('other@example.com')).toEqual(credentials);
+    });
+
+    it('reports write failures without leaving temporary files', async () => {
+        const cache = new TokenCache({
+            filePath: path.join(directory, 'missing', 'tokens.json'),
+            secret: 's3cret'
+        });
+
+        await expect(cache.save('user@example.com', credentials)).rejects.toThrow(
+            'Failed to write token cache'
+        );
+        expect(await fs.promises.readdir(directory)).toEqual([]);
+        // Later updates still run
+        await expect(cache.delete('user@example.com')).rejects.toThrow(
+            'Failed to write token cache'
+        );
+    });
+});
@@ -0,0 +1,205 @@
+import TypeGenerator from '../src/utils/typeGenerator';
+
+/**
+ * Builds the schema of a topic
+ */
+function topicSchema(topicName: string, schema: object) {
+    return { topicName, schemaId: `${topicName}-schema`, schemaJson: JSON.stringify(schema) };
+}
+
+describe('TypeGenerator', () => {
+    it('declares the payload types of topics as returned by the client', () => {
+        const generator = new TypeGenerator();
+        const typeName = generator.addTopic(
+            topicSchema('/event/Sample__e', {
+                type: 'record',
+                name: 'Sample__e',
+                namespace: 'com.sforce.eventbus',
+                fields: [
+                    { name: 'CreatedDate', type: 'long', doc: 'CreatedDate:DateTime' },
+                    { name: 'Message__c', type: ['null', 'string'], default: null },
+                    { name: 'Count__c', type: ['null', 'int', 'double'] },
+                    { name: 'Flag__c', type: 'boolean' },
+                    { name: 'Data__c', type: 'bytes' },
+                    { name: 'Tags__c', type: { type: 'array', items: 'string' } },
+                    { name: 'Scores__c', type: { type: 'map', values: 'float' } },
+                    { name: 'Hash__c', type: { type: 'fixed', name: 'Hash', size: 16 } },
+                    { name: 'Date__c', type: { type: 'int', logicalType: 'date' } }
+                ]
+            })
+        );
+        const source = generator.generate();
+
+        expect(typeName).toBe('Sample__e');
+        expect(source).toContain(
+            [
+                '/**',
+                ' * Payload of /event/Sample__e (schema ID /event/Sample__e-schema)',
+                ' */',
+                'export interface Sample__e {',
+                '    /**',
+                '     * CreatedDate:DateTime',
+                '     */',
+                '    CreatedDate: number | bigint;',
+                '    Message__c: null | string;',
+                '    Count__c: null | number;',
+                '    Flag__c: boolean;',
+                '    Data__c: Buffer;',
+                '    Tags__c: Array<string>;',
+                '    Scores__c: Record<string, number>;',
+                '    Hash__c: Buffer;',
+                '    Date__c: number;',
+                '}'
+            ].join('\n')
+        );
+        expect(source).toContain(
+            'export interface TopicPayloads {\n    "/event/Sample__e": Sample__e;\n}'
+        );
+    });
+
+    it('replaces the field bitmaps of CDC headers with lists of field names', () => {
+        const generator = new TypeGenerator();
+        generator.addTopic(
+            topicSchema('/data/AccountChangeEvent', {
+                type: 'record',
+                name: 'AccountChangeEvent',
+                fields: [
+                    {
+                        name: 'ChangeEventHeader',
+                        type: {
+                            type: 'record',
+                            name: 'ChangeEventHeader',
+                            fields: [
+                                { name: 'entityName', type: 'string' },
+                                { name: 'changedFields', type: { type: 'array', items: 'string' } },
+                                { name: 'nulledFields', type: { type: 'array', items: 'string' } },
+                                { name: 'diffFields', type: { type: 'array', items: 'string' } }
+                            ]
+                        }
+                    }
+                ]
+            })
+        );
+        const source = generator.generate();
+
+        expect(source).toContain('    ChangeEventHeader: ChangeEventHeader;');
+        expect(source).toContain('    entityName: string;');
+        expect(source).toMatch(/Names of the fields that were changed\n {5}\*\/\n {4}changedFields: string\[\];/);
+        expect(source).toContain('    nulledFields: string[];');
+        expect(source).toContain('    diffFields: string[];');
+    });
+
+    it('declares enums as unions of string literals', () => {
+        const generator = new TypeGenerator();
+        generator.addTopic(
+            topicSchema('/event/Status__e', {
+                type: 'record',
+                name: 'Status__e',
+                fields: [
+                    {
+                        name: 'Status__c',
+                        type: { type: 'enum', name: 'Status', symbols: ['OPEN', 'CLOSED'] }
+                    }
+                ]
+            })
+        );
+        expect(generator.generate()).toContain('export type Status = "OPEN" | "CLOSED";');
+    });
+
+    it('refers to named types that were already declared and to recursive types', () => {
+        const generator = new TypeGenerator();
+        generator.addTopic(
+            topicSchema('/event/Tree__e', {
+                type: 'record',
+                name: 'Tree__e',
+                namespace: 'com.example',
+                fields: [
+                    {
+                        name: 'root',
+                        type: {
+                            type: 'record',
+                            name: 'Node',
+                            fields: [
+                                { name: 'children', type: { type: 'array', items: 'Node' } }
+                            ]
+                        }
+                    },
+                    { name: 'other', type: 'com.example.Node' }
+                ]
+            })
+        );
+        const source = generator.generate();
+
+        expect(source).toContain('export interface Node {\n    children: Array<Node>;\n}');
+        expect(source).toContain('    root: Node;\n    other: Node;');
+    });
+
+    it('declares identical named types shared by several topics once', () => {
+        const header = {
+            type: 'record',
+            name: 'Header',
+            fields: [{ name: 'id', type: 'string' }]
+        };
+        const generator = new TypeGenerator();
+        generator.addTopic(
+            topicSchema('/event/A__e', { type: 'record', name: 'A__e', fields: [{ name: 'header', type: header }] })
+        );
+        generator.addTopic(
+            topicSchema('/event/B__e', { type: 'record', name: 'B__e', fields: [{ name: 'header', type: header }] })
+        );
+        const source = generator.generate();
+
+        expect(source.match(/export interface Header /g)).toHaveLength(1);
+    });
+
+    it('renames different named types that share a name', () => {
+        const generator = new TypeGenerator();
+        generator.addTopic(
+            topicSchema('/event/A__e', {
+                type: 'record',
+                name: 'A__e',
+                fields: [
+                    {
+                        name: 'header',
+                        type: { type: 'record', name: 'Header', fields: [{ name: 'id', type: 'string' }] }
+                    }
+                ]
+            })
+        );
+        generator.addTopic(
+            topicSchema('/event/B__e', {
+                type: 'record',
+                name: 'B__e',
+                fields: [
+                    {
+                        name: 'header',
+                        type: { type: 'record', name: 'Header', fields: [{ name: 'id', type: 'int' }] }
+                    }
+                ]
+            })
+        );
+        const source = generator.generate();
+
+        expect(source).toContain('export interface Header {\n    id: string;\n}');
+        expect(source).toContain('export interface Header_2 {\n    id: number;\n}');
+        expect(source).toContain('export interface B__e {\n    header: Header_2;\n}');
+    });
+
+    it('rejects topic schemas that are not records', () => {
+        expect(() =>
+            new TypeGenerator().addTopic(topicSchema('/event/Bad__e', { type: 'enum', name: 'Bad', symbols: ['A'] }))
+        ).toThrow('Expected a record schema for topic /event/Bad__e, got enum');
+    });
+
+    it('rejects unknown named types', () => {
+        expect(() =>
+            new TypeGenerator().addTopic(
+                topicSchema('/event/Bad__e', {
+                    type: 'record',
+                    name: 'Bad__e',
+                    fields: [{ name: 'field', type: 'Missing' }]
+                })
+            )
+        ).toThrow('Unknown Avro type Missing');
+    });
+});